@@ -1,213 +1,377 @@
-import { AIProvider, AIRequest, TaskType, RoutingScore, AIRoutingRule } from '@/types/ai';
+import {
+  AIProvider,
+  AIRequest,
+  AIModel,
+  ModelTier,
+  TaskType,
+  TaskClassifier,
+  TaskClassification,
+  RoutingScore,
+  RoutingExplanation,
+  RoutingStrategy,
+  RoutingWeights,
+  RoutingDecision,
+  RejectedModel,
+  UserRoutingRule,
+  PreferenceSignal,
+  RoutingPreference,
+  RoutingPreferences,
+} from '@/types/ai';
+import { MeasuredMetrics, ProviderDefinition } from '@/types/provider';
+import { ExtensionSettings } from '@/types/extension';
 import storageService from '@/services/storage';
+import providerRegistry from '@/services/providerRegistry';
+import { getAvailability } from '@/services/rateLimit';
+import { TokenCounter } from '@/utils/tokenCounter';
+import { CostCalculator } from '@/utils/costCalculator';
+import { KeywordTaskClassifier } from './taskClassifier';
+import { MetricsTracker } from './metricsTracker';
+
+// How much each signal moves a provider's preference score
+const SIGNAL_WEIGHTS: Record<PreferenceSignal, number> = {
+  thumbs_up: 1,
+  thumbs_down: -1,
+  manual_switch: -0.5,
+  regenerate: -0.5,
+  judge_win: 0.5,
+  judge_loss: -0.25,
+};
+
+// Factor weights for each named strategy. Custom weights come from settings.
+const STRATEGY_WEIGHTS: Record<Exclude<RoutingStrategy, 'custom'>, RoutingWeights> = {
+  balanced: { capabilityMatch: 0.4, userPreference: 0.3, costEfficiency: 0.2, responseSpeed: 0.1 },
+  cheapest: { capabilityMatch: 0.1, userPreference: 0.1, costEfficiency: 0.7, responseSpeed: 0.1 },
+  fastest: { capabilityMatch: 0.2, userPreference: 0.1, costEfficiency: 0.1, responseSpeed: 0.6 },
+  best_quality: { capabilityMatch: 0.7, userPreference: 0.2, costEfficiency: 0, responseSpeed: 0.1 },
+};
+
+// Model tier each task type needs to be done well
+const TASK_TIERS: Record<TaskType, ModelTier> = {
+  creative_writing: 'high',
+  analysis: 'high',
+  reasoning: 'high',
+  code_generation: 'high',
+  debugging: 'high',
+  research: 'high',
+  technical_docs: 'medium',
+  real_time_info: 'low',
+  translation: 'low',
+  summarization: 'low',
+  casual_chat: 'low',
+  data_extraction: 'low',
+};
+
+const TIER_LEVELS: Record<ModelTier, number> = { low: 0, medium: 1, high: 2 };
+
+// Prompts shorter than this need one tier less, longer ones one tier more
+const SHORT_PROMPT_TOKENS = 50;
+const LONG_PROMPT_TOKENS = 2000;
+
+interface ModelFactors {
+  provider: AIProvider;
+  model: string;
+  factors: RoutingWeights;
+}
+
+interface Candidates {
+  scored: ModelFactors[];
+  rejected: RejectedModel[];
+}
+
+// Measured metrics replace the provider's baseline after this many requests
+const MIN_SAMPLES = 5;
+
+// Speed scoring: a first token this late or later scores 0, output this
+// fast or faster scores 1
+const MAX_FIRST_TOKEN_TIME = 3000;
+const FAST_TOKENS_PER_SECOND = 80;
+
+// Preferences lose half their weight every two weeks without new signals
+const PREFERENCE_HALF_LIFE = 14 * 24 * 60 * 60 * 1000;
 
 export class AIRouter {
-  private routingRules: AIRoutingRule[] = [
-    // Claude rules
-    {
-      id: 'claude-creative',
-      name: 'Claude for Creative Writing',
-      pattern: /write|story|creative|poem|narrative|essay|article/i,
-      provider: 'claude',
-      model: 'claude-3-opus-20240229',
-      priority: 10,
-      taskTypes: ['creative_writing'],
-    },
-    {
-      id: 'claude-analysis',
-      name: 'Claude for Analysis',
-      pattern: /analyze|analysis|reasoning|explain|understand|complex/i,
-      provider: 'claude',
-      priority: 10,
-      taskTypes: ['analysis', 'reasoning'],
-    },
-
-    // ChatGPT rules
-    {
-      id: 'chatgpt-code',
-      name: 'ChatGPT for Code',
-      pattern: /code|program|function|debug|implement|javascript|python|typescript/i,
-      provider: 'chatgpt',
-      model: 'gpt-4-turbo-preview',
-      priority: 10,
-      taskTypes: ['code_generation', 'debugging'],
-    },
-    {
-      id: 'chatgpt-technical',
-      name: 'ChatGPT for Technical Documentation',
-      pattern: /technical|documentation|api|specification/i,
-      provider: 'chatgpt',
-      priority: 9,
-      taskTypes: ['technical_docs'],
-    },
-
-    // Gemini rules
-    {
-      id: 'gemini-research',
-      name: 'Gemini for Research',
-      pattern: /research|search|find|latest|news|current|google/i,
-      provider: 'gemini',
-      priority: 10,
-      taskTypes: ['research', 'real_time_info'],
-    },
-    {
-      id: 'gemini-data',
-      name: 'Gemini for Data Extraction',
-      pattern: /extract|data|table|csv|json|parse/i,
-      provider: 'gemini',
-      priority: 9,
-      taskTypes: ['data_extraction'],
-    },
-
-    // Grok rules
-    {
-      id: 'grok-casual',
-      name: 'Grok for Casual Chat',
-      pattern: /chat|casual|quick|simple|hey|hi/i,
-      provider: 'grok',
-      priority: 8,
-      taskTypes: ['casual_chat'],
-    },
-    {
-      id: 'grok-social',
-      name: 'Grok for Social Media',
-      pattern: /tweet|post|social|twitter|x\.com/i,
-      provider: 'grok',
-      priority: 10,
-      taskTypes: ['casual_chat'],
-    },
-  ];
-
-  private userPreferences: Map<string, AIProvider> = new Map();
-  private performanceMetrics: Map<AIProvider, { avgResponseTime: number; successRate: number }> = new Map();
-
-  constructor() {
-    this.initializeMetrics();
-    this.loadUserPreferences();
-  }
-
-  private async initializeMetrics() {
-    // Initialize with default metrics
-    this.performanceMetrics.set('claude', { avgResponseTime: 2000, successRate: 0.98 });
-    this.performanceMetrics.set('chatgpt', { avgResponseTime: 1800, successRate: 0.97 });
-    this.performanceMetrics.set('gemini', { avgResponseTime: 1500, successRate: 0.96 });
-    this.performanceMetrics.set('grok', { avgResponseTime: 1000, successRate: 0.95 });
-  }
-
-  private async loadUserPreferences() {
-    // Load from storage if available
-    const usage = await storageService.get('usage', 'local');
-    if (usage?.byProvider) {
-      // Analyze past usage to determine preferences
-      Object.entries(usage.byProvider).forEach(([provider, stats]) => {
-        // Update performance metrics based on actual usage
-        const metrics = this.performanceMetrics.get(provider as AIProvider);
-        if (metrics && stats.requests > 10) {
-          metrics.successRate = 1 - (stats.errors / stats.requests);
-          metrics.avgResponseTime = stats.averageResponseTime || metrics.avgResponseTime;
-        }
-      });
-    }
-  }
+  private preferences: RoutingPreferences = {};
+  private preferencesLoaded: Promise<void>;
+
+  private keywordClassifier = new KeywordTaskClassifier();
 
   /**
-   * Route a request to the best AI provider
+   * `metrics` supplies measured speed and reliability. `embeddingClassifier`
+   * is used when the routing settings ask for it; keywords are the fallback
+   * whenever it can't classify a prompt.
    */
-  async route(request: AIRequest): Promise<AIProvider> {
-    const scores = await this.calculateScores(request);
+  constructor(private metrics: MetricsTracker, private embeddingClassifier?: TaskClassifier) {
+    this.preferencesLoaded = this.loadRoutingPreferences();
+  }
 
-    // Sort by score and return the best provider
-    const sorted = scores.sort((a, b) => b.score - a.score);
-    return sorted[0].provider;
+  private async loadRoutingPreferences() {
+    this.preferences = await storageService.get('routingPreferences', 'local') || {};
   }
 
   /**
-   * Calculate routing scores for all providers
+   * Route a request to the best provider and model. Pass the request's
+   * classification when the caller already has it.
    */
-  private async calculateScores(request: AIRequest): Promise<RoutingScore[]> {
+  async route(request: AIRequest, classification?: TaskClassification): Promise<RoutingDecision> {
     const settings = await storageService.getSettings();
-    const taskType = this.detectTaskType(request);
-    const scores: RoutingScore[] = [];
+    const strategy = this.getStrategy(request, settings);
+    const { scored } = await this.calculateFactors(request, settings, classification);
+    const best = this.rankScores(scored, strategy, settings)[0];
+
+    return best
+      ? { provider: best.provider, model: best.model }
+      : this.getDefaultDecision(settings);
+  }
+
+  private getDefaultDecision(settings: ExtensionSettings): RoutingDecision {
+    const provider = settings.general.defaultProvider;
+    return { provider, model: settings.providers[provider]?.model || '' };
+  }
 
-    for (const provider of ['claude', 'chatgpt', 'gemini', 'grok'] as AIProvider[]) {
+  /**
+   * The conversation's strategy wins over the global one
+   */
+  private getStrategy(request: AIRequest, settings: ExtensionSettings): RoutingStrategy {
+    return request.routingStrategy || settings.routing.strategy;
+  }
+
+  /**
+   * Weights for a strategy, scaled to sum to 1
+   */
+  private getWeights(strategy: RoutingStrategy, settings: ExtensionSettings): RoutingWeights {
+    const weights = strategy === 'custom' ? settings.routing.customWeights : STRATEGY_WEIGHTS[strategy];
+    const total = Object.values(weights).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    if (total <= 0) return STRATEGY_WEIGHTS.balanced;
+
+    return {
+      capabilityMatch: Math.max(0, weights.capabilityMatch) / total,
+      userPreference: Math.max(0, weights.userPreference) / total,
+      costEfficiency: Math.max(0, weights.costEfficiency) / total,
+      responseSpeed: Math.max(0, weights.responseSpeed) / total,
+    };
+  }
+
+  /**
+   * Score models under a strategy, best first. The cheapest strategy puts
+   * models below the quality bar last, so they only win when nothing else
+   * meets it.
+   */
+  private rankScores(
+    candidates: ModelFactors[],
+    strategy: RoutingStrategy,
+    settings: ExtensionSettings
+  ): RoutingScore[] {
+    const weights = this.getWeights(strategy, settings);
+
+    const scores: RoutingScore[] = candidates.map(({ provider, model, factors: f }) => ({
+      provider,
+      model,
+      score:
+        f.capabilityMatch * weights.capabilityMatch +
+        f.userPreference * weights.userPreference +
+        f.costEfficiency * weights.costEfficiency +
+        f.responseSpeed * weights.responseSpeed,
+      factors: f,
+      belowQualityBar: strategy === 'cheapest' && f.capabilityMatch < settings.routing.qualityBar,
+    }));
+
+    return scores.sort((a, b) =>
+      Number(a.belowQualityBar) - Number(b.belowQualityBar) || b.score - a.score
+    );
+  }
+
+  /**
+   * Calculate routing factors for the candidate models of every enabled
+   * provider, leaving out models that can't take the request
+   */
+  private async calculateFactors(
+    request: AIRequest,
+    settings: ExtensionSettings,
+    classification?: TaskClassification
+  ): Promise<Candidates> {
+    await Promise.all([this.preferencesLoaded, this.metrics.ready()]);
+    const matchedRule = this.findMatchingRule(request, settings.routing.rules);
+    const { taskType } = classification || await this.classifyTask(request, settings, matchedRule);
+    const prompt = this.getPromptText(request);
+    const scored: ModelFactors[] = [];
+    const rejected: RejectedModel[] = [];
+
+    for (const definition of providerRegistry.list()) {
       // Skip disabled providers
-      if (!settings.providers[provider].enabled) {
+      if (!settings.providers[definition.id]?.enabled) {
         continue;
       }
 
-      const score = await this.calculateProviderScore(provider, request, taskType);
-      scores.push(score);
+      const availability = await this.calculateAvailability(definition.id);
+
+      for (const model of this.getCandidateModels(definition, matchedRule)) {
+        const promptTokens = TokenCounter.estimate(prompt, model.id);
+        const reason = this.getRejectionReason(model, request, promptTokens);
+        if (reason) {
+          rejected.push({ provider: definition.id, model: model.id, reason });
+          continue;
+        }
+
+        scored.push({
+          provider: definition.id,
+          model: model.id,
+          factors: {
+            capabilityMatch: this.calculateCapabilityMatch(model, taskType, promptTokens, matchedRule),
+            userPreference: this.calculateUserPreference(definition.id, model.id, taskType),
+            costEfficiency: this.calculateCostEfficiency(model, promptTokens, request),
+            responseSpeed: this.calculateResponseSpeed(definition.id, model.id) * availability,
+          },
+        });
+      }
     }
 
-    return scores;
+    return { scored, rejected };
   }
 
   /**
-   * Calculate score for a specific provider
+   * Models of a provider the router may pick: every current model, plus the
+   * model a matching rule names even if it is a legacy one
    */
-  private async calculateProviderScore(
-    provider: AIProvider,
-    request: AIRequest,
-    taskType: TaskType
-  ): Promise<RoutingScore> {
-    const factors = {
-      capabilityMatch: this.calculateCapabilityMatch(provider, taskType, request),
-      userPreference: this.calculateUserPreference(provider, taskType),
-      costEfficiency: this.calculateCostEfficiency(provider, request),
-      responseSpeed: this.calculateResponseSpeed(provider),
-    };
+  private getCandidateModels(definition: ProviderDefinition, matchedRule?: UserRoutingRule): AIModel[] {
+    const models = definition.models.filter(model => !model.legacy);
 
-    // Weighted average of factors
-    const score =
-      factors.capabilityMatch * 0.4 +
-      factors.userPreference * 0.3 +
-      factors.costEfficiency * 0.2 +
-      factors.responseSpeed * 0.1;
+    if (matchedRule?.model && matchedRule.provider === definition.id) {
+      const named = providerRegistry.findModel(matchedRule.model, definition.id);
+      if (named && !models.includes(named)) models.push(named);
+    }
 
-    return { provider, score, factors };
+    return models;
+  }
+
+  /**
+   * Why a model can't take the request, if it can't: the prompt plus the
+   * reply must fit its context window, and it needs every capability the
+   * request uses
+   */
+  private getRejectionReason(model: AIModel, request: AIRequest, promptTokens: number): string | undefined {
+    const needed = promptTokens + (request.maxTokens || 1000);
+    if (needed > model.maxTokens) {
+      return `Needs ${needed} tokens, context window is ${model.maxTokens}`;
+    }
+
+    const missing = this.getRequiredCapabilities(request).filter(c => !model.capabilities.includes(c));
+    if (missing.length > 0) {
+      return `Doesn't support ${missing.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Capabilities a model needs for this request
+   */
+  getRequiredCapabilities(request: AIRequest): string[] {
+    const capabilities = ['text'];
+    if ((request.messages || []).some(msg => msg.images?.length)) capabilities.push('vision');
+    if (request.reasoning) capabilities.push('reasoning');
+    return capabilities;
   }
 
   /**
    * Detect the task type from the request
    */
-  private detectTaskType(request: AIRequest): TaskType {
-    const content = this.getRequestContent(request);
+  async detectTaskType(request: AIRequest): Promise<TaskType> {
+    return (await this.classify(request)).taskType;
+  }
 
-    // Check against routing rules
-    for (const rule of this.routingRules) {
-      if (rule.pattern instanceof RegExp && rule.pattern.test(content)) {
-        return rule.taskTypes[0];
-      }
+  /**
+   * Classify the task of a request. Classifying can embed the prompt, so
+   * callers that also route and fail over classify once and pass the result.
+   */
+  async classify(request: AIRequest): Promise<TaskClassification> {
+    const settings = await storageService.getSettings();
+    const matchedRule = this.findMatchingRule(request, settings.routing.rules);
+    return this.classifyTask(request, settings, matchedRule);
+  }
+
+  /**
+   * First enabled rule, in priority order, whose conditions all hold
+   */
+  private findMatchingRule(request: AIRequest, rules: UserRoutingRule[]): UserRoutingRule | undefined {
+    return rules.find(rule => rule.enabled && this.ruleMatches(rule, request));
+  }
+
+  private ruleMatches(rule: UserRoutingRule, request: AIRequest): boolean {
+    const { promptPattern, urlPattern, domains, pageTypes, minTokens, maxTokens } = rule.conditions;
+    const messages = request.messages || [];
+    const prompt = messages[messages.length - 1]?.content || '';
+    const url = request.context?.url || '';
+
+    if (promptPattern && !this.testPattern(promptPattern, prompt)) return false;
+    if (urlPattern && !this.testPattern(urlPattern, url)) return false;
+
+    if (domains?.length) {
+      const hostname = this.getHostname(url);
+      if (!domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))) return false;
     }
 
-    // Fallback detection based on keywords
-    const taskKeywords: Record<TaskType, RegExp> = {
-      creative_writing: /write|story|creative|poem|narrative/i,
-      analysis: /analyze|analysis|explain|understand/i,
-      reasoning: /reason|logic|deduce|conclude/i,
-      code_generation: /code|program|function|implement/i,
-      debugging: /debug|fix|error|bug/i,
-      technical_docs: /document|api|technical|specification/i,
-      research: /research|find|search|information/i,
-      real_time_info: /latest|current|today|news/i,
-      translation: /translate|translation|language/i,
-      summarization: /summarize|summary|brief|tldr/i,
-      casual_chat: /chat|talk|hey|hi|hello/i,
-      data_extraction: /extract|parse|data|table/i,
-    };
+    if (pageTypes?.length && !pageTypes.includes(request.context?.pageType || '')) return false;
+
+    // Counted like the context window counts them, so thresholds match the UI
+    const tokens = TokenCounter.estimate(this.getPromptText(request), request.model);
+    if (minTokens !== undefined && tokens < minTokens) return false;
+    if (maxTokens !== undefined && tokens > maxTokens) return false;
+
+    return true;
+  }
+
+  // Invalid user patterns never match rather than breaking routing
+  private testPattern(pattern: string, text: string): boolean {
+    try {
+      return new RegExp(pattern, 'i').test(text);
+    } catch (error) {
+      return false;
+    }
+  }
 
-    for (const [type, pattern] of Object.entries(taskKeywords)) {
-      if (pattern.test(content)) {
-        return type as TaskType;
+  private getHostname(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch (error) {
+      return '';
+    }
+  }
+
+  /**
+   * A rule's task type wins, then the configured classifier, then keywords
+   */
+  private async classifyTask(
+    request: AIRequest,
+    settings: ExtensionSettings,
+    matchedRule?: UserRoutingRule
+  ): Promise<TaskClassification> {
+    if (matchedRule?.taskType) {
+      return { taskType: matchedRule.taskType, confidence: 1, classifier: 'rule' };
+    }
+
+    const content = this.getRequestContent(request);
+
+    if (settings.routing.classifier === 'embeddings' && this.embeddingClassifier) {
+      try {
+        const classification = await this.embeddingClassifier.classify(content);
+        if (classification) return classification;
+      } catch (error) {
+        console.error('Embedding classification failed:', error);
       }
     }
 
-    return 'casual_chat'; // Default
+    return this.keywordClassifier.classify(content);
   }
 
   /**
-   * Get the content from the request for analysis
+   * Everything sent to the model: system prompt, the whole conversation and
+   * the page context
    */
+  private getPromptText(request: AIRequest): string {
+    const context = request.context?.selection || request.context?.visibleText || '';
+    return [request.systemPrompt || '', ...(request.messages || []).map(m => m.content), context].join('\n');
+  }
+
   private getRequestContent(request: AIRequest): string {
     const messages = request.messages || [];
     const lastMessage = messages[messages.length - 1];
@@ -217,116 +381,66 @@ export class AIRouter {
   }
 
   /**
-   * Calculate how well a provider matches the task
+   * Calculate how well a model matches the task: the provider's strength at
+   * the task, scaled down for each tier the model falls short of what the
+   * task needs
    */
-  private calculateCapabilityMatch(provider: AIProvider, taskType: TaskType, request: AIRequest): number {
-    const capabilities: Record<AIProvider, Record<TaskType, number>> = {
-      claude: {
-        creative_writing: 1.0,
-        analysis: 1.0,
-        reasoning: 1.0,
-        code_generation: 0.8,
-        debugging: 0.7,
-        technical_docs: 0.8,
-        research: 0.6,
-        real_time_info: 0.3,
-        translation: 0.8,
-        summarization: 0.9,
-        casual_chat: 0.8,
-        data_extraction: 0.7,
-      },
-      chatgpt: {
-        creative_writing: 0.8,
-        analysis: 0.8,
-        reasoning: 0.8,
-        code_generation: 1.0,
-        debugging: 1.0,
-        technical_docs: 1.0,
-        research: 0.7,
-        real_time_info: 0.4,
-        translation: 0.9,
-        summarization: 0.8,
-        casual_chat: 0.8,
-        data_extraction: 0.8,
-      },
-      gemini: {
-        creative_writing: 0.7,
-        analysis: 0.8,
-        reasoning: 0.8,
-        code_generation: 0.8,
-        debugging: 0.7,
-        technical_docs: 0.8,
-        research: 1.0,
-        real_time_info: 1.0,
-        translation: 0.9,
-        summarization: 0.8,
-        casual_chat: 0.7,
-        data_extraction: 0.9,
-      },
-      grok: {
-        creative_writing: 0.6,
-        analysis: 0.6,
-        reasoning: 0.6,
-        code_generation: 0.6,
-        debugging: 0.5,
-        technical_docs: 0.6,
-        research: 0.7,
-        real_time_info: 0.9,
-        translation: 0.6,
-        summarization: 0.7,
-        casual_chat: 1.0,
-        data_extraction: 0.6,
-      },
-    };
+  private calculateCapabilityMatch(
+    model: AIModel,
+    taskType: TaskType,
+    promptTokens: number,
+    matchedRule?: UserRoutingRule
+  ): number {
+    // A rule naming this model is a perfect match; one naming only the
+    // provider still leaves the tier to be judged
+    const ruleProvider = matchedRule?.provider === model.provider;
+    if (ruleProvider && matchedRule?.model && providerRegistry.findModel(matchedRule.model, model.provider) === model) {
+      return 1.0;
+    }
 
-    // Check if there's a specific rule match
-    const content = this.getRequestContent(request);
-    const matchingRule = this.routingRules.find(
-      rule => rule.provider === provider && rule.pattern instanceof RegExp && rule.pattern.test(content)
-    );
+    const strength = ruleProvider && !matchedRule?.model
+      ? 1.0
+      : providerRegistry.get(model.provider)?.taskStrengths[taskType] || 0.5;
 
-    if (matchingRule) {
-      return 1.0; // Perfect match based on rule
-    }
+    const shortfall = Math.max(0, this.getRequiredTier(taskType, promptTokens) - TIER_LEVELS[model.tier]);
+    return strength * Math.pow(0.6, shortfall);
+  }
+
+  /**
+   * Tier level the task needs, adjusted for how long the prompt is
+   */
+  private getRequiredTier(taskType: TaskType, promptTokens: number): number {
+    let level = TIER_LEVELS[TASK_TIERS[taskType]];
+    if (promptTokens < SHORT_PROMPT_TOKENS) level--;
+    if (promptTokens > LONG_PROMPT_TOKENS) level++;
 
-    return capabilities[provider][taskType] || 0.5;
+    return Math.min(TIER_LEVELS.high, Math.max(TIER_LEVELS.low, level));
   }
 
   /**
    * Calculate user preference score
    */
-  private calculateUserPreference(provider: AIProvider, taskType: TaskType): number {
+  private calculateUserPreference(provider: AIProvider, model: string, taskType: TaskType): number {
     // Check if user has a preference for this task type
-    const preferenceKey = `${taskType}-preference`;
-    const preferredProvider = this.userPreferences.get(preferenceKey);
+    const preferences = this.preferences[taskType];
 
-    if (preferredProvider === provider) {
-      return 1.0;
-    } else if (preferredProvider) {
-      return 0.3; // Lower score for non-preferred providers
+    if (preferences && Object.keys(preferences).length > 0) {
+      const score = preferences[provider] ? this.decay(preferences[provider]) : 0;
+      // Map the unbounded score onto 0..1, with no signal at 0.5
+      return 0.5 + Math.tanh(score / 2) / 2;
     }
 
-    // No specific preference, use general success rate
-    const metrics = this.performanceMetrics.get(provider);
-    return metrics?.successRate || 0.5;
+    // No specific preference, use how reliably the model has answered
+    const measured = this.getMeasuredMetrics(provider, model);
+    return measured?.successRate ?? providerRegistry.get(provider)?.defaultMetrics.successRate ?? 0.5;
   }
 
   /**
    * Calculate cost efficiency
    */
-  private calculateCostEfficiency(provider: AIProvider, request: AIRequest): number {
-    // Estimated cost per 1k tokens (in cents)
-    const costs: Record<AIProvider, { input: number; output: number }> = {
-      claude: { input: 0.8, output: 2.4 },
-      chatgpt: { input: 1.0, output: 3.0 },
-      gemini: { input: 0.5, output: 1.5 },
-      grok: { input: 0.3, output: 0.9 },
-    };
-
-    // Estimate token count
-    const estimatedTokens = this.estimateTokens(request);
-    const cost = costs[provider];
-    const estimatedCost = (estimatedTokens.input * cost.input + estimatedTokens.output * cost.output) / 1000;
+  private calculateCostEfficiency(model: AIModel, promptTokens: number, request: AIRequest): number {
+    // Pricing is in dollars, convert to cents
+    const estimatedCost = CostCalculator.calculate(model.id, promptTokens, request.maxTokens || 1000) * 100;
 
     // Convert to efficiency score (lower cost = higher score)
     const maxCost = 5; // Maximum expected cost in cents
@@ -336,63 +450,190 @@ export class AIRouter {
   /**
    * Calculate response speed score
    */
-  private calculateResponseSpeed(provider: AIProvider): number {
-    const metrics = this.performanceMetrics.get(provider);
-    if (!metrics) return 0.5;
+  private calculateResponseSpeed(provider: AIProvider, model: string): number {
+    const measured = this.getMeasuredMetrics(provider, model);
+
+    // Streamed answers: how soon they start and how fast they flow
+    if (measured?.timeToFirstToken && measured.tokensPerSecond) {
+      const start = Math.max(0, 1 - measured.timeToFirstToken.p50 / MAX_FIRST_TOKEN_TIME);
+      const flow = Math.min(1, measured.tokensPerSecond.p50 / FAST_TOKENS_PER_SECOND);
+      return (start + flow) / 2;
+    }
+
+    const responseTime = measured?.latency?.p50 ?? providerRegistry.get(provider)?.defaultMetrics.avgResponseTime;
+    if (responseTime === undefined) return 0.5;
 
     // Convert response time to score (faster = higher score)
     const maxTime = 5000; // 5 seconds max
-    return Math.max(0, 1 - metrics.avgResponseTime / maxTime);
+    return Math.max(0, 1 - responseTime / maxTime);
   }
 
   /**
-   * Estimate token count for a request
+   * Measured metrics for the model, or for the provider while the model has
+   * too few requests, or nothing until the provider has enough either
    */
-  private estimateTokens(request: AIRequest): { input: number; output: number } {
-    // Simple estimation: ~4 characters per token
-    const content = this.getRequestContent(request);
-    const inputTokens = Math.ceil(content.length / 4);
-    const outputTokens = request.maxTokens || 1000;
+  private getMeasuredMetrics(provider: AIProvider, model: string): MeasuredMetrics | undefined {
+    const modelMetrics = this.metrics.getMetrics(provider, model);
+    if (modelMetrics && modelMetrics.requests >= MIN_SAMPLES) return modelMetrics;
+
+    const providerMetrics = this.metrics.getMetrics(provider);
+    if (providerMetrics && providerMetrics.requests >= MIN_SAMPLES) return providerMetrics;
+
+    return undefined;
+  }
 
-    return { input: inputTokens, output: outputTokens };
+  /**
+   * How much of its rate limit the provider has left, from its last response
+   */
+  private async calculateAvailability(provider: AIProvider): Promise<number> {
+    const status = await providerRegistry.getAdapter(provider)?.getRateLimitStatus();
+    return status ? getAvailability(status) : 1;
   }
 
   /**
-   * Update user preferences based on actual usage
+   * Providers to fall back to, in order, when `primary` fails with a
+   * retryable error. Disabled and unknown providers are left out.
+   */
+  async getFailoverChain(
+    request: AIRequest,
+    primary: AIProvider,
+    classification?: TaskClassification
+  ): Promise<AIProvider[]> {
+    const settings = await storageService.getSettings();
+    const { failoverEnabled, failoverChains } = settings.routing;
+    if (!failoverEnabled || request.allowFailover === false) return [];
+
+    const matchedRule = this.findMatchingRule(request, settings.routing.rules);
+    const { taskType } = classification || await this.classifyTask(request, settings, matchedRule);
+    const chain = failoverChains[taskType]?.length ? failoverChains[taskType]! : failoverChains.default || [];
+
+    return chain.filter((provider, index) =>
+      provider !== primary &&
+      chain.indexOf(provider) === index &&
+      providerRegistry.has(provider) &&
+      settings.providers[provider]?.enabled
+    );
+  }
+
+  /**
+   * Learn from user feedback on an answer for a task type
+   */
+  async recordFeedback(taskType: TaskType, provider: AIProvider, signal: PreferenceSignal): Promise<void> {
+    await this.preferencesLoaded;
+
+    const preferences = this.preferences[taskType] || {};
+    const current = preferences[provider];
+
+    preferences[provider] = {
+      score: (current ? this.decay(current) : 0) + SIGNAL_WEIGHTS[signal],
+      updatedAt: Date.now(),
+    };
+    this.preferences[taskType] = preferences;
+
+    await storageService.set('routingPreferences', this.preferences, 'local');
+  }
+
+  /**
+   * Explicitly prefer a provider for a task type
    */
   async updatePreference(taskType: TaskType, provider: AIProvider): Promise<void> {
-    const key = `${taskType}-preference`;
-    this.userPreferences.set(key, provider);
+    await this.recordFeedback(taskType, provider, 'thumbs_up');
+  }
+
+  /**
+   * Learned preferences with decay applied, for display
+   */
+  async getPreferences(): Promise<RoutingPreferences> {
+    await this.preferencesLoaded;
+
+    const now = Date.now();
+    const result: RoutingPreferences = {};
+
+    for (const [taskType, preferences] of Object.entries(this.preferences)) {
+      result[taskType as TaskType] = Object.fromEntries(
+        Object.entries(preferences || {}).map(([provider, preference]) => [
+          provider,
+          { score: this.decay(preference, now), updatedAt: preference.updatedAt },
+        ])
+      );
+    }
 
-    // Persist preferences
-    // You might want to store this in extension storage
+    return result;
+  }
+
+  /**
+   * Forget learned preferences for one task type, or all of them
+   */
+  async resetPreferences(taskType?: TaskType): Promise<void> {
+    await this.preferencesLoaded;
+
+    if (taskType) {
+      delete this.preferences[taskType];
+    } else {
+      this.preferences = {};
+    }
+
+    await storageService.set('routingPreferences', this.preferences, 'local');
+  }
+
+  private decay(preference: RoutingPreference, now: number = Date.now()): number {
+    return preference.score * Math.pow(0.5, (now - preference.updatedAt) / PREFERENCE_HALF_LIFE);
   }
 
   /**
    * Get routing explanation for debugging
    */
-  async explainRouting(request: AIRequest): Promise<{
-    recommended: AIProvider;
-    scores: RoutingScore[];
-    taskType: TaskType;
-    explanation: string;
-  }> {
-    const scores = await this.calculateScores(request);
-    const taskType = this.detectTaskType(request);
-    const sorted = scores.sort((a, b) => b.score - a.score);
-
-    const explanation = `Task detected as "${taskType}".
-      Best provider: ${sorted[0].provider} (score: ${sorted[0].score.toFixed(2)})
-      - Capability match: ${sorted[0].factors.capabilityMatch.toFixed(2)}
-      - User preference: ${sorted[0].factors.userPreference.toFixed(2)}
-      - Cost efficiency: ${sorted[0].factors.costEfficiency.toFixed(2)}
-      - Response speed: ${sorted[0].factors.responseSpeed.toFixed(2)}`;
+  async explainRouting(request: AIRequest): Promise<RoutingExplanation> {
+    const settings = await storageService.getSettings();
+    const matchedRule = this.findMatchingRule(request, settings.routing.rules);
+    const classification = await this.classifyTask(request, settings, matchedRule);
+    const { taskType } = classification;
+    const strategy = this.getStrategy(request, settings);
+    const { scored, rejected } = await this.calculateFactors(request, settings, classification);
+    const sorted = this.rankScores(scored, strategy, settings);
+    const balanced = this.rankScores(scored, 'balanced', settings)[0];
+    const best = sorted[0];
+    const fallback = this.getDefaultDecision(settings);
+
+    const ruleLine = matchedRule
+      ? `Rule "${matchedRule.name}" fired for ${matchedRule.model || matchedRule.provider}.`
+      : 'No routing rule fired.';
+
+    let strategyLine = `Strategy: ${strategy}.`;
+    if (best && balanced && strategy !== 'balanced') {
+      strategyLine += balanced.provider === best.provider && balanced.model === best.model
+        ? ' Same pick as the balanced strategy.'
+        : ` The balanced strategy would have picked ${balanced.model} (${balanced.provider}).`;
+    }
+    if (best?.belowQualityBar) {
+      strategyLine += ` No model met the quality bar of ${settings.routing.qualityBar.toFixed(2)}.`;
+    }
+
+    const rejectedLine = rejected.length > 0 ? ` ${rejected.length} model(s) can't take this request.` : '';
+
+    const taskLine = `Task detected as "${taskType}" by ${classification.classifier}.`;
+
+    const explanation = best
+      ? `${taskLine} ${ruleLine} ${strategyLine}${rejectedLine}
+      Best model: ${best.model} (${best.provider}, score: ${best.score.toFixed(2)})
+      - Capability match: ${best.factors.capabilityMatch.toFixed(2)}
+      - User preference: ${best.factors.userPreference.toFixed(2)}
+      - Cost efficiency: ${best.factors.costEfficiency.toFixed(2)}
+      - Response speed: ${best.factors.responseSpeed.toFixed(2)}`
+      : `${taskLine} ${ruleLine}${rejectedLine} No enabled model can take it.`;
 
     return {
-      recommended: sorted[0].provider,
+      recommended: best?.provider || fallback.provider,
+      recommendedModel: best?.model || fallback.model,
       scores: sorted,
+      rejected,
       taskType,
+      classification,
+      matchedRule,
+      strategy,
+      weights: this.getWeights(strategy, settings),
+      balancedRecommended: balanced ? { provider: balanced.provider, model: balanced.model } : fallback,
       explanation,
     };
   }
-}
\ No newline at end of file
+}
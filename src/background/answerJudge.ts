@@ -0,0 +1,142 @@
+import { AIRequest, AIResponse, JudgeCandidate, JudgeScore, JudgeVerdict, TaskType } from '@/types/ai';
+import { JudgeSettings } from '@/types/extension';
+import providerRegistry from '@/services/providerRegistry';
+
+const JUDGE_SYSTEM_PROMPT = `You are an impartial judge comparing answers from different AI assistants to the same question.
+Judge only the content. Do not favour longer answers or any particular writing style.
+Reply with a single JSON object and nothing else.`;
+
+// Losers trail the winner by at least this much before it counts against them
+const LOSS_MARGIN = 2;
+
+/**
+ * Scores several answers to one prompt with a chosen model, notes where they
+ * disagree and writes a merged best-of answer. Answers are shown to the
+ * judge anonymously so it can't favour a provider by name.
+ */
+export class AnswerJudge {
+  constructor(private send: (request: AIRequest) => Promise<AIResponse>) {}
+
+  async judge(
+    prompt: string,
+    candidates: JudgeCandidate[],
+    settings: JudgeSettings,
+    taskType?: TaskType
+  ): Promise<JudgeVerdict> {
+    if (candidates.length < 2) {
+      throw new Error('At least two answers are needed to judge');
+    }
+
+    const labels = candidates.map((_, index) => String.fromCharCode(65 + index)); // A, B, C...
+    const model = settings.model || providerRegistry.getDefaultModel(settings.provider)?.id || '';
+
+    const response = await this.send({
+      provider: settings.provider,
+      model,
+      systemPrompt: JUDGE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: this.buildPrompt(prompt, candidates, labels, settings.rubric) }],
+      temperature: 0.2,
+      maxTokens: 4000,
+      priority: 'interactive',
+      allowFailover: false, // A stand-in judge could end up grading its own answer
+    });
+
+    if (response.error) {
+      throw new Error(`The judge failed: ${response.error}`);
+    }
+
+    const parsed = this.parseReply(response.content);
+    const names = candidates.map(c => providerRegistry.get(c.provider)?.name || c.provider);
+
+    const rankings: JudgeScore[] = candidates
+      .map((candidate, index) => {
+        const entry = parsed.scores?.find((s: any) => s?.answer === labels[index]) || {};
+        const scores: Record<string, number> = {};
+        settings.rubric.forEach(criterion => {
+          scores[criterion] = clampScore(entry.criteria?.[criterion]);
+        });
+
+        return {
+          provider: candidate.provider,
+          model: candidate.model,
+          scores,
+          overall: clampScore(entry.overall),
+          comment: typeof entry.comment === 'string' ? this.credit(entry.comment, labels, names) : '',
+        };
+      })
+      .sort((a, b) => b.overall - a.overall);
+
+    return {
+      judge: { provider: settings.provider, model: response.model || model },
+      rankings,
+      disagreements: Array.isArray(parsed.disagreements)
+        ? parsed.disagreements.filter((d: unknown) => typeof d === 'string').map((d: string) => this.credit(d, labels, names))
+        : [],
+      mergedAnswer: typeof parsed.merged === 'string' ? this.credit(parsed.merged, labels, names) : '',
+      taskType,
+    };
+  }
+
+  /**
+   * Winner and clear losers of a verdict, for routing preferences
+   */
+  getOutcome(verdict: JudgeVerdict): { winner?: JudgeScore; losers: JudgeScore[] } {
+    const [winner, ...rest] = verdict.rankings;
+    if (!winner) return { losers: [] };
+
+    // Ties teach the router nothing
+    if (rest.some(r => r.overall === winner.overall)) return { losers: [] };
+
+    return { winner, losers: rest.filter(r => winner.overall - r.overall >= LOSS_MARGIN) };
+  }
+
+  private buildPrompt(prompt: string, candidates: JudgeCandidate[], labels: string[], rubric: string[]): string {
+    const answers = candidates
+      .map((candidate, index) => `Answer ${labels[index]}:\n<<<\n${candidate.content}\n>>>`)
+      .join('\n\n');
+
+    const criteria = rubric.map(criterion => `"${criterion}": <1-10>`).join(', ');
+
+    return `Question:
+<<<
+${prompt}
+>>>
+
+${answers}
+
+Score every answer from 1 to 10 on each of these criteria: ${rubric.join(', ')}. Give an overall score too.
+List each point on which the answers contradict each other, naming the answers involved like [A].
+Then write the best possible answer to the question by combining the strongest parts of the answers, citing the answers you draw on like [A].
+
+Reply in this JSON format:
+{"scores": [{"answer": "A", "criteria": {${criteria}}, "overall": <1-10>, "comment": "<one sentence>"}], "disagreements": ["<point>"], "merged": "<markdown answer>"}`;
+  }
+
+  private parseReply(content: string): any {
+    // Models sometimes wrap JSON in a code fence or add a sentence around it
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('The judge did not return a verdict');
+    }
+
+    try {
+      return JSON.parse(content.slice(start, end + 1));
+    } catch (error) {
+      throw new Error('The judge returned a verdict that could not be read');
+    }
+  }
+
+  // Replace anonymous [A] citations with provider names
+  private credit(text: string, labels: string[], names: string[]): string {
+    return text.replace(/\[([A-Z])\]/g, (match, label: string) => {
+      const index = labels.indexOf(label);
+      return index === -1 ? match : `[${names[index]}]`;
+    });
+  }
+}
+
+function clampScore(value: unknown): number {
+  const score = Number(value);
+  return isNaN(score) ? 0 : Math.min(10, Math.max(1, score));
+}
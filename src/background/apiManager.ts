@@ -1,40 +1,59 @@
-import { AIProvider, AIRequest, AIResponse, StreamChunk } from '@/types/ai';
-import { ClaudeAPI } from '@/services/anthropic';
-import { ChatGPTAPI } from '@/services/openai';
-import { GeminiAPI } from '@/services/google';
-import { GrokAPI } from '@/services/xai';
+import { AIMessage, AIProvider, AIRequest, AIResponse, JSONSchema, StreamChunk, StreamTarget, ToolResult } from '@/types/ai';
+import { ProviderAdapter, RateLimitStatus } from '@/types/provider';
+import { ExtensionMessage } from '@/types/extension';
+import providerRegistry from '@/services/providerRegistry';
+import { isRetryableError } from '@/services/apiError';
+import { JSONSchemaValidator } from '@/utils/jsonSchema';
+import { ToolContext, ToolRegistry } from './toolRegistry';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT = 60000;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+const MAX_RETRY_AFTER = 60000;
+
+// Rounds of tool calls before we stop and return what the model has said
+const MAX_TOOL_ROUNDS = 5;
+
+// Follow-up requests asking the model to fix an answer that broke the schema
+const MAX_REPAIR_ATTEMPTS = 2;
 
 interface APIRequestWithConfig extends AIRequest {
   apiKey: string;
   settings: any;
+  requestId?: string;
+  signal?: AbortSignal; // Aborts the request when the caller cancels
+  streamTarget?: StreamTarget;
+  onChunk?: (chunk: StreamChunk) => void; // Replaces stream messages when set
+  toolContext?: ToolContext;
 }
 
 export class APIManager {
-  private providers: Map<AIProvider, any>;
   private activeRequests: Map<string, AbortController> = new Map();
+  private embeddingAdapters: Map<AIProvider, ProviderAdapter> = new Map();
 
-  constructor() {
-    this.providers = new Map([
-      ['claude', new ClaudeAPI()],
-      ['chatgpt', new ChatGPTAPI()],
-      ['gemini', new GeminiAPI()],
-      ['grok', new GrokAPI()],
-    ]);
-  }
+  constructor(private tools: ToolRegistry) {}
 
   /**
    * Send a request to the specified AI provider
    */
   async sendRequest(request: APIRequestWithConfig): Promise<AIResponse> {
-    const provider = this.providers.get(request.provider);
+    const provider = providerRegistry.getAdapter(request.provider);
     if (!provider) {
       throw new Error(`Unknown provider: ${request.provider}`);
     }
 
-    const requestId = this.generateRequestId();
+    const requestId = request.requestId || this.generateRequestId();
     const abortController = new AbortController();
     this.activeRequests.set(requestId, abortController);
 
+    if (request.signal) {
+      if (request.signal.aborted) {
+        abortController.abort();
+      }
+      request.signal.addEventListener('abort', () => abortController.abort());
+    }
+
     try {
       const startTime = Date.now();
 
@@ -44,12 +63,126 @@ export class APIManager {
         ...request.settings,
       });
 
-      let response: AIResponse;
+      const maxRetries = request.settings?.maxRetries ?? DEFAULT_MAX_RETRIES;
+      const timeout = request.settings?.timeout ?? DEFAULT_TIMEOUT;
 
-      if (request.stream) {
-        response = await this.handleStreamingRequest(provider, request, abortController.signal, requestId);
-      } else {
-        response = await provider.sendRequest(request, abortController.signal);
+      // Models without tool or reasoning support would reject the request outright
+      let turnRequest = request;
+      const capabilities = providerRegistry.findModel(request.model, request.provider)?.capabilities || [];
+      if (request.tools?.length && !capabilities.includes('tools')) {
+        turnRequest = { ...turnRequest, tools: undefined };
+      }
+      if (request.reasoning && !capabilities.includes('reasoning')) {
+        turnRequest = { ...turnRequest, reasoning: undefined };
+      }
+
+      // Structured answers are validated as a whole, so they aren't streamed.
+      // The instruction also covers models without a native JSON mode.
+      if (request.responseSchema) {
+        turnRequest = {
+          ...turnRequest,
+          stream: false,
+          systemPrompt: [request.systemPrompt, JSONSchemaValidator.describe(request.responseSchema)]
+            .filter(Boolean)
+            .join('\n\n'),
+        };
+      }
+
+      let { response, firstChunkAt, retries } = await this.sendTurn(
+        provider, turnRequest, abortController.signal, requestId, maxRetries, timeout
+      );
+      let usage = response.usage;
+      let cost = response.cost;
+      let reasoningCost = response.reasoningCost;
+
+      // Continue the conversation with more messages, adding up what it costs
+      const followUp = async (messages: AIMessage[]): Promise<AIResponse> => {
+        turnRequest = { ...turnRequest, messages: [...turnRequest.messages, ...messages] };
+
+        const turn = await this.sendTurn(provider, turnRequest, abortController.signal, requestId, maxRetries, timeout);
+        retries += turn.retries;
+        firstChunkAt = firstChunkAt ?? turn.firstChunkAt;
+        usage = this.addUsage(usage, turn.response.usage);
+        cost = this.addOptional(cost, turn.response.cost);
+        reasoningCost = this.addOptional(reasoningCost, turn.response.reasoningCost);
+        return turn.response;
+      };
+
+      // Run the tools the model asks for and send back the results until it answers
+      const toolResults: ToolResult[] = [];
+      let content = response.content;
+      let reasoning = response.reasoning;
+
+      for (let round = 1; response.toolCalls?.length && !response.error && round <= MAX_TOOL_ROUNDS; round++) {
+        const results = await Promise.all(
+          response.toolCalls.map(call => this.tools.execute(call, request.toolContext || {}))
+        );
+        if (abortController.signal.aborted) {
+          return this.cancelledResponse(request);
+        }
+        toolResults.push(...results);
+
+        // Keep what the model said before calling tools apart from what follows
+        if (content && turnRequest.stream) {
+          this.emitChunk(request, requestId, { delta: '\n\n', finished: false, provider: response.provider, model: response.model });
+        }
+
+        response = await followUp([
+          {
+            role: 'assistant',
+            content: response.content,
+            toolCalls: response.toolCalls,
+            reasoning: response.reasoning,
+            reasoningSignature: response.reasoningSignature,
+          },
+          { role: 'user', content: '', toolResults: results },
+        ]);
+        content = [content, response.content].filter(Boolean).join('\n\n');
+        reasoning = [reasoning, response.reasoning].filter(Boolean).join('\n\n') || undefined;
+      }
+
+      if (toolResults.length > 0) {
+        response = { ...response, content, reasoning, toolResults };
+        if (response.toolCalls?.length && !response.error && !content) {
+          response = {
+            ...response,
+            error: `The model was still calling tools after ${MAX_TOOL_ROUNDS} rounds`,
+            errorCode: 'unknown',
+          };
+        }
+      }
+
+      // Check structured answers, showing the model what was wrong until it
+      // gets it right or we run out of attempts
+      if (request.responseSchema && !response.error) {
+        for (let repair = 0; ; repair++) {
+          const { value, errors } = this.checkStructuredAnswer(response.content, request.responseSchema);
+          if (errors.length === 0) {
+            response = { ...response, data: value, schemaErrors: undefined };
+            break;
+          }
+          if (repair >= MAX_REPAIR_ATTEMPTS) {
+            response = { ...response, schemaErrors: errors };
+            break;
+          }
+
+          const repaired = await followUp([
+            { role: 'assistant', content: response.content },
+            {
+              role: 'user',
+              content: `Your answer does not match the JSON Schema:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReply with the corrected JSON only.`,
+            },
+          ]);
+          if (repaired.error) break; // Keep the answer we have rather than fail outright
+          response = { ...response, ...repaired, toolResults: response.toolResults };
+        }
+      }
+
+      response = { ...response, usage, cost, reasoningCost };
+
+      // Send stream end signal
+      if (request.stream && !request.onChunk) {
+        this.sendStreamEnd(request.streamTarget, requestId);
       }
 
       // Calculate response time
@@ -59,12 +192,14 @@ export class APIManager {
       response = {
         ...response,
         responseTime,
+        timeToFirstToken: firstChunkAt !== undefined ? firstChunkAt - startTime : undefined,
+        retries,
       };
 
       return response;
     } catch (error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request was cancelled');
+      if (error.name === 'AbortError' || abortController.signal.aborted) {
+        return this.cancelledResponse(request);
       }
       throw error;
     } finally {
@@ -72,22 +207,188 @@ export class APIManager {
     }
   }
 
+  /**
+   * Send one turn of the conversation, retrying transient failures
+   */
+  private async sendTurn(
+    provider: ProviderAdapter,
+    request: APIRequestWithConfig,
+    signal: AbortSignal,
+    requestId: string,
+    maxRetries: number,
+    timeout: number
+  ): Promise<{ response: AIResponse; firstChunkAt?: number; retries: number }> {
+    let attempt = 0;
+
+    while (true) {
+      const result = await this.runAttempt(provider, request, signal, requestId, timeout);
+
+      if (!this.shouldRetry(result.response, attempt, maxRetries, result.emitted)) {
+        return { response: result.response, firstChunkAt: result.firstChunkAt, retries: attempt };
+      }
+
+      await this.sleep(this.getRetryDelay(result.response, attempt), signal);
+      attempt++;
+    }
+  }
+
+  // Reported like any other error so the caller skips failover and metrics
+  private cancelledResponse(request: APIRequestWithConfig): AIResponse {
+    return {
+      provider: request.provider,
+      model: request.model || '',
+      content: '',
+      error: 'Request was cancelled',
+      errorCode: 'cancelled',
+    };
+  }
+
+  private checkStructuredAnswer(content: string, schema: JSONSchema): { value?: any; errors: string[] } {
+    const { value, error } = JSONSchemaValidator.parse(content);
+    if (error) return { errors: [error] };
+
+    return { value, errors: JSONSchemaValidator.validate(value, schema) };
+  }
+
+  private addUsage(a: AIResponse['usage'], b: AIResponse['usage']): AIResponse['usage'] {
+    if (!a || !b) return a || b;
+    return {
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      totalTokens: a.totalTokens + b.totalTokens,
+      reasoningTokens: this.addOptional(a.reasoningTokens, b.reasoningTokens),
+    };
+  }
+
+  // Sum of two optional numbers, unknown only if both are
+  private addOptional(a: number | undefined, b: number | undefined): number | undefined {
+    return a !== undefined || b !== undefined ? (a || 0) + (b || 0) : undefined;
+  }
+
+  /**
+   * Make a single attempt, aborting it if it runs past the timeout. For
+   * streams the timeout restarts with every chunk so long answers are not
+   * cut off.
+   */
+  private async runAttempt(
+    provider: ProviderAdapter,
+    request: APIRequestWithConfig,
+    signal: AbortSignal,
+    requestId: string,
+    timeout: number
+  ): Promise<{ response: AIResponse; emitted: boolean; firstChunkAt?: number }> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort);
+
+    let emitted = false;
+    let firstChunkAt: number | undefined;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const restartTimer = () => {
+      clearTimeout(timer);
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout);
+      }
+    };
+
+    const timeoutResponse = (): AIResponse => ({
+      provider: request.provider,
+      model: request.model || '',
+      content: '',
+      error: `Request timed out after ${Math.round(timeout / 1000)}s`,
+      errorCode: 'timeout',
+    });
+
+    restartTimer();
+
+    try {
+      const response = request.stream
+        ? await this.handleStreamingRequest(provider, request, controller.signal, requestId, () => {
+            if (!emitted) firstChunkAt = Date.now();
+            emitted = true;
+            restartTimer();
+          })
+        : await provider.sendRequest(request, controller.signal);
+
+      if (timedOut && response.error) {
+        return { response: { ...response, ...timeoutResponse() }, emitted, firstChunkAt };
+      }
+      return { response, emitted, firstChunkAt };
+    } catch (error) {
+      if (timedOut) {
+        return { response: timeoutResponse(), emitted, firstChunkAt };
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Only transient failures are retried, and never once the caller has
+   * started receiving a stream
+   */
+  private shouldRetry(response: AIResponse, attempt: number, maxRetries: number, emitted: boolean): boolean {
+    if (!response.error || !isRetryableError(response.errorCode)) return false;
+    if (attempt >= maxRetries || emitted) return false;
+
+    // Waits this long are better surfaced to the user than spent silently
+    return response.retryAfter === undefined || response.retryAfter <= MAX_RETRY_AFTER;
+  }
+
+  /**
+   * Use the provider's hint when it gave one, otherwise exponential backoff
+   * with jitter so concurrent requests don't retry in lockstep
+   */
+  private getRetryDelay(response: AIResponse, attempt: number): number {
+    if (response.retryAfter !== undefined) {
+      return response.retryAfter;
+    }
+
+    const backoff = Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt);
+    return backoff * (0.5 + Math.random() / 2);
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        const error = new Error('Request was cancelled');
+        error.name = 'AbortError';
+        reject(error);
+      };
+
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
   /**
    * Handle streaming responses
    */
   private async handleStreamingRequest(
-    provider: any,
+    provider: ProviderAdapter,
     request: APIRequestWithConfig,
     signal: AbortSignal,
-    requestId: string
+    requestId: string,
+    onEmit: () => void
   ): Promise<AIResponse> {
     return new Promise((resolve, reject) => {
       let fullContent = '';
-      let usage = {
-        inputTokens: 0,
-        outputTokens: 0,
-        totalTokens: 0,
-      };
 
       provider.streamRequest(
         request,
@@ -97,16 +398,16 @@ export class APIManager {
             return;
           }
 
-          fullContent += chunk.delta;
+          // Reasoning is streamed to the caller but isn't part of the answer
+          if (chunk.kind !== 'reasoning') {
+            fullContent += chunk.delta;
+          }
+          onEmit();
 
-          // Send chunk to content script
-          this.sendStreamChunk(requestId, chunk);
+          this.emitChunk(request, requestId, chunk);
         },
         signal
       ).then((finalResponse: AIResponse) => {
-        // Send stream end signal
-        this.sendStreamEnd(requestId);
-
         resolve({
           ...finalResponse,
           content: fullContent,
@@ -116,6 +417,17 @@ export class APIManager {
     });
   }
 
+  /**
+   * Send a chunk to whoever made the request
+   */
+  private emitChunk(request: APIRequestWithConfig, requestId: string, chunk: StreamChunk): void {
+    if (request.onChunk) {
+      request.onChunk(chunk);
+    } else {
+      this.sendStreamChunk(request.streamTarget, requestId, chunk);
+    }
+  }
+
   /**
    * Cancel an active request
    */
@@ -138,28 +450,35 @@ export class APIManager {
   }
 
   /**
-   * Send a stream chunk to content script
+   * Send a stream chunk to the requesting tab or extension page
    */
-  private async sendStreamChunk(requestId: string, chunk: StreamChunk): Promise<void> {
-    const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
-    if (activeTab?.id) {
-      chrome.tabs.sendMessage(activeTab.id, {
-        type: 'STREAM_CHUNK',
-        payload: { requestId, chunk },
-      });
-    }
+  private sendStreamChunk(target: StreamTarget | undefined, requestId: string, chunk: StreamChunk): void {
+    this.postToStreamTarget(target, {
+      type: 'STREAM_CHUNK',
+      payload: { requestId, chunk },
+    });
   }
 
   /**
-   * Send stream end signal to content script
+   * Send stream end signal to the requesting tab or extension page
    */
-  private async sendStreamEnd(requestId: string): Promise<void> {
-    const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
-    if (activeTab?.id) {
-      chrome.tabs.sendMessage(activeTab.id, {
-        type: 'STREAM_END',
-        payload: { requestId },
-      });
+  private sendStreamEnd(target: StreamTarget | undefined, requestId: string): void {
+    this.postToStreamTarget(target, {
+      type: 'STREAM_END',
+      payload: { requestId },
+    });
+  }
+
+  private postToStreamTarget(target: StreamTarget | undefined, message: ExtensionMessage): void {
+    // The requester may have navigated away or closed, so delivery can fail
+    const ignoreDisconnect = () => {};
+
+    if (target?.tabId !== undefined) {
+      chrome.tabs
+        .sendMessage(target.tabId, message, { frameId: target.frameId })
+        .catch(ignoreDisconnect);
+    } else {
+      chrome.runtime.sendMessage(message).catch(ignoreDisconnect);
     }
   }
 
@@ -174,7 +493,7 @@ export class APIManager {
    * Validate API key for a provider
    */
   async validateAPIKey(provider: AIProvider, apiKey: string): Promise<boolean> {
-    const api = this.providers.get(provider);
+    const api = providerRegistry.getAdapter(provider);
     if (!api) {
       return false;
     }
@@ -192,7 +511,7 @@ export class APIManager {
    * Get available models for a provider
    */
   async getAvailableModels(provider: AIProvider, apiKey: string): Promise<string[]> {
-    const api = this.providers.get(provider);
+    const api = providerRegistry.getAdapter(provider);
     if (!api) {
       return [];
     }
@@ -210,8 +529,8 @@ export class APIManager {
    * Estimate token count for a request
    */
   estimateTokens(provider: AIProvider, text: string): number {
-    const api = this.providers.get(provider);
-    if (api && api.estimateTokens) {
+    const api = providerRegistry.getAdapter(provider);
+    if (api) {
       return api.estimateTokens(text);
     }
 
@@ -228,41 +547,46 @@ export class APIManager {
     inputTokens: number,
     outputTokens: number
   ): number {
-    const api = this.providers.get(provider);
-    if (api && api.calculateCost) {
+    const api = providerRegistry.getAdapter(provider);
+    if (api) {
       return api.calculateCost(model, inputTokens, outputTokens);
     }
 
     // Fallback cost calculation
-    const costs: Record<string, { input: number; output: number }> = {
-      'claude-default': { input: 0.008, output: 0.024 },
-      'chatgpt-default': { input: 0.01, output: 0.03 },
-      'gemini-default': { input: 0.005, output: 0.015 },
-      'grok-default': { input: 0.003, output: 0.009 },
-    };
-
-    const cost = costs[`${provider}-default`] || { input: 0.01, output: 0.03 };
+    const cost = { input: 0.01, output: 0.03 };
     return (inputTokens * cost.input + outputTokens * cost.output) / 1000;
   }
 
+  /**
+   * Embed text with a provider's embedding model, empty if it has none
+   */
+  async embedText(provider: AIProvider, apiKey: string, text: string): Promise<number[]> {
+    // A separate adapter, so configuring it doesn't reset the shared one's
+    // chat settings
+    let api = this.embeddingAdapters.get(provider);
+    if (!api) {
+      api = providerRegistry.get(provider)?.createAdapter();
+      if (!api) return [];
+      this.embeddingAdapters.set(provider, api);
+    }
+    if (!api.embedText) {
+      return [];
+    }
+
+    api.configure({ apiKey });
+    return await api.embedText(text);
+  }
+
   /**
    * Get rate limit status for a provider
    */
-  async getRateLimitStatus(provider: AIProvider): Promise<{
-    remaining: number;
-    reset: Date;
-    limit: number;
-  }> {
-    const api = this.providers.get(provider);
-    if (api && api.getRateLimitStatus) {
+  async getRateLimitStatus(provider: AIProvider): Promise<RateLimitStatus> {
+    const api = providerRegistry.getAdapter(provider);
+    if (api) {
       return await api.getRateLimitStatus();
     }
 
-    // Default values if not implemented
-    return {
-      remaining: 100,
-      reset: new Date(Date.now() + 3600000),
-      limit: 100,
-    };
+    // Nothing known until the provider reports its limits
+    return { updatedAt: 0 };
   }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { PageContext } from '@/types/ai';
-import { ContextMenuItem } from '@/types/extension';
+import { ContextMenuItem, PrivacySettings } from '@/types/extension';
 import storageService from '@/services/storage';
+import providerRegistry from '@/services/providerRegistry';
 
 export class ContextManager {
   private tabContexts: Map<number, PageContext> = new Map();
@@ -148,19 +149,33 @@ export class ContextManager {
   }
 
   /**
-   * Get context based on privacy settings
+   * Whether privacy settings let AIs read the page in a tab on demand
    */
-  async getContextWithPrivacy(tabId: number): Promise<PageContext | null> {
-    const settings = await storageService.getSettings();
+  async canReadPage(tabId: number): Promise<boolean> {
+    const { privacy } = await storageService.getSettings();
+    if (!privacy.pageTools || privacy.sensitiveMode || privacy.contextSharing === 'none') {
+      return false;
+    }
+
     const tab = await chrome.tabs.get(tabId);
+    return !this.isExcluded(tab.url || '', privacy);
+  }
 
-    // Check if domain is excluded
-    const isExcluded = settings.privacy.excludedDomains.some(pattern => {
+  private isExcluded(url: string, privacy: PrivacySettings): boolean {
+    return privacy.excludedDomains.some(pattern => {
       const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-      return regex.test(tab.url || '');
+      return regex.test(url);
     });
+  }
+
+  /**
+   * Get context based on privacy settings
+   */
+  async getContextWithPrivacy(tabId: number): Promise<PageContext | null> {
+    const settings = await storageService.getSettings();
+    const tab = await chrome.tabs.get(tabId);
 
-    if (isExcluded || settings.privacy.sensitiveMode) {
+    if (this.isExcluded(tab.url || '', settings.privacy) || settings.privacy.sensitiveMode) {
       return {
         url: tab.url || '',
         title: tab.title || '',
@@ -211,34 +226,13 @@ export function createContextMenus(): void {
       title: 'Ask AI',
       contexts: ['selection', 'page'],
     },
-    {
-      id: 'ask-claude',
-      title: 'Ask Claude',
-      contexts: ['selection', 'page'],
-      parentId: 'ai-menu',
-      onclick: (info, tab) => handleAIMenuClick('claude', info, tab),
-    },
-    {
-      id: 'ask-chatgpt',
-      title: 'Ask ChatGPT',
-      contexts: ['selection', 'page'],
-      parentId: 'ai-menu',
-      onclick: (info, tab) => handleAIMenuClick('chatgpt', info, tab),
-    },
-    {
-      id: 'ask-gemini',
-      title: 'Ask Gemini',
+    ...providerRegistry.list().map((provider): ContextMenuItem => ({
+      id: `ask-${provider.id}`,
+      title: `Ask ${provider.name}`,
       contexts: ['selection', 'page'],
       parentId: 'ai-menu',
-      onclick: (info, tab) => handleAIMenuClick('gemini', info, tab),
-    },
-    {
-      id: 'ask-grok',
-      title: 'Ask Grok',
-      contexts: ['selection', 'page'],
-      parentId: 'ai-menu',
-      onclick: (info, tab) => handleAIMenuClick('grok', info, tab),
-    },
+      onclick: (info, tab) => handleAIMenuClick(provider.id, info, tab),
+    })),
     {
       id: 'separator-1',
       title: '---',
@@ -281,10 +275,9 @@ export function handleContextMenuClick(
   tab?: chrome.tabs.Tab
 ): void {
   const handlers: Record<string, Function> = {
-    'ask-claude': () => handleAIMenuClick('claude', info, tab),
-    'ask-chatgpt': () => handleAIMenuClick('chatgpt', info, tab),
-    'ask-gemini': () => handleAIMenuClick('gemini', info, tab),
-    'ask-grok': () => handleAIMenuClick('grok', info, tab),
+    ...Object.fromEntries(
+      providerRegistry.ids().map(id => [`ask-${id}`, () => handleAIMenuClick(id, info, tab)])
+    ),
     'ask-all': () => handleAskAll(info, tab),
     'custom-prompt': () => handleCustomPrompt(info, tab),
   };
@@ -0,0 +1,190 @@
+import { AIMessage, AIModel, AIRequest, AIResponse, ContextWindowInfo, HistorySummary, PageContext } from '@/types/ai';
+import { HistoryOverflow } from '@/types/extension';
+import providerRegistry from '@/services/providerRegistry';
+import { TokenCounter } from '@/utils/tokenCounter';
+import { JSONSchemaValidator } from '@/utils/jsonSchema';
+
+const DEFAULT_OUTPUT_TOKENS = 4000;
+
+// Our token counts are estimates, so part of the window is left unused
+const SAFETY_MARGIN = 0.1;
+
+// Roughly what a screenshot costs with any of the vision models
+const IMAGE_TOKENS = 1500;
+
+// Room kept for a summary that hasn't been written yet
+const SUMMARY_TOKENS = 1000;
+
+// Messages are cut to this length before being summarized
+const MAX_TOKENS_PER_SUMMARIZED_MESSAGE = 2000;
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize the earlier part of a conversation between a user and an AI assistant so it can continue without the full transcript.
+Keep facts, decisions, names, numbers, code identifiers and open questions. Leave out pleasantries.
+Write at most a few short paragraphs in the third person and reply with the summary only.`;
+
+/**
+ * Fits a conversation into its model's context window. The system prompt,
+ * page context and reserved output come off the top; the newest messages
+ * take what's left. Older messages are folded into a rolling summary,
+ * written by the provider's cheapest model, or dropped.
+ */
+export class ContextWindowManager {
+  constructor(private send: (request: AIRequest) => Promise<AIResponse>) {}
+
+  async fit(
+    request: AIRequest,
+    overflow: HistoryOverflow
+  ): Promise<{ request: AIRequest; contextWindow: ContextWindowInfo }> {
+    const { historySummary, ...rest } = request;
+    const messages = request.messages;
+    const model = request.model || '';
+
+    const limit = providerRegistry.findModel(model, request.provider)?.maxTokens ?? TokenCounter.getModelLimit(model);
+    const output = request.maxTokens || DEFAULT_OUTPUT_TOKENS;
+    const system = this.estimateSystem(request, model);
+    const context = this.estimateContext(request.context, model);
+
+    const summarized = Math.min(historySummary?.messageCount ?? 0, messages.length - 1);
+    const summary = summarized > 0 ? historySummary : undefined;
+    const summaryTokens = summary ? TokenCounter.estimate(summary.text, model) : 0;
+
+    const available = Math.floor(limit * (1 - SAFETY_MARGIN)) - output - system - context;
+    let first = this.findFirstInContext(messages, summarized, available - summaryTokens, model);
+
+    let nextSummary = summary;
+    if (first > summarized) {
+      // Make room for a summary that will cover more messages
+      first = this.findFirstInContext(messages, summarized, available - Math.max(summaryTokens, SUMMARY_TOKENS), model);
+
+      if (overflow === 'summarize') {
+        nextSummary = await this.summarize(request, summary, messages.slice(summarized, first), first);
+      }
+    }
+
+    const nextSummaryTokens = nextSummary ? TokenCounter.estimate(nextSummary.text, model) : 0;
+    const kept = messages.slice(first);
+
+    return {
+      request: {
+        ...rest,
+        messages: kept,
+        systemPrompt: nextSummary
+          ? [request.systemPrompt, `Summary of the conversation so far:\n${nextSummary.text}`].filter(Boolean).join('\n\n')
+          : request.systemPrompt,
+      },
+      contextWindow: {
+        limit,
+        system: system + nextSummaryTokens,
+        context,
+        history: kept.reduce((total, msg) => total + this.estimateMessage(msg, model), 0),
+        output,
+        firstMessageInContext: first,
+        summary: nextSummary,
+      },
+    };
+  }
+
+  /**
+   * Index of the oldest message that still fits, walking back from the
+   * newest. The newest message is always sent, and history starts on a
+   * user turn since some providers require it.
+   */
+  private findFirstInContext(messages: AIMessage[], from: number, budget: number, model: string): number {
+    if (messages.length === 0) return 0;
+
+    let first = messages.length - 1;
+    let used = this.estimateMessage(messages[first], model);
+
+    for (let i = first - 1; i >= from; i--) {
+      used += this.estimateMessage(messages[i], model);
+      if (used > budget) break;
+      first = i;
+    }
+
+    while (first < messages.length - 1 && messages[first].role !== 'user') {
+      first++;
+    }
+    return first;
+  }
+
+  /**
+   * Fold messages into the running summary. Falls back to the old summary,
+   * dropping the messages, when the summary can't be written.
+   */
+  private async summarize(
+    request: AIRequest,
+    previous: HistorySummary | undefined,
+    messages: AIMessage[],
+    messageCount: number
+  ): Promise<HistorySummary | undefined> {
+    const model = this.getSummaryModel(request.provider);
+    if (!model) return previous;
+
+    const transcript = messages
+      .map(msg => {
+        const text = TokenCounter.truncate(msg.content, MAX_TOKENS_PER_SUMMARIZED_MESSAGE, model.id);
+        const images = msg.images?.length ? ` [${msg.images.length} image(s)]` : '';
+        return `${msg.role === 'assistant' ? 'Assistant' : 'User'}:${images} ${text}`;
+      })
+      .join('\n\n');
+
+    const prompt = [
+      previous ? `Summary of the conversation before this part:\n${previous.text}` : '',
+      `Conversation:\n${transcript}`,
+    ].filter(Boolean).join('\n\n');
+
+    const response = await this.send({
+      provider: model.provider,
+      model: model.id,
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: TokenCounter.truncate(prompt, Math.floor(model.maxTokens / 2), model.id),
+      }],
+      temperature: 0.2,
+      maxTokens: SUMMARY_TOKENS,
+      priority: request.priority,
+    });
+
+    if (response.error || !response.content.trim()) {
+      console.error('Failed to summarize conversation history:', response.error);
+      return previous;
+    }
+
+    return { text: response.content.trim(), messageCount };
+  }
+
+  // The provider's cheapest text model, so summaries use the same API key
+  private getSummaryModel(provider: string): AIModel | undefined {
+    const models = providerRegistry.get(provider)?.models.filter(m => m.capabilities.includes('text')) || [];
+    return [...models].sort((a, b) => a.costPer1kTokens.output - b.costPer1kTokens.output)[0];
+  }
+
+  private estimateMessage(msg: AIMessage, model: string): number {
+    let tokens = TokenCounter.estimate(msg.content, model) + 4; // Role and separators
+    tokens += (msg.images?.length || 0) * IMAGE_TOKENS;
+    if (msg.toolCalls) tokens += TokenCounter.estimate(JSON.stringify(msg.toolCalls), model);
+    if (msg.toolResults) tokens += msg.toolResults.reduce((sum, r) => sum + TokenCounter.estimate(r.content, model), 0);
+    return tokens;
+  }
+
+  private estimateSystem(request: AIRequest, model: string): number {
+    const parts = [
+      request.systemPrompt || '',
+      request.tools ? JSON.stringify(request.tools) : '',
+      request.responseSchema ? JSONSchemaValidator.describe(request.responseSchema) : '',
+    ];
+    return parts.reduce((total, part) => total + (part ? TokenCounter.estimate(part, model) : 0), 0);
+  }
+
+  // Adapters send the selection, or the start of the visible text, plus the URL and title
+  private estimateContext(context: PageContext | undefined, model: string): number {
+    if (!context) return 0;
+    const text = [
+      context.selection || context.visibleText?.substring(0, 1000) || '',
+      context.url,
+      context.title,
+    ].join('\n');
+    return TokenCounter.estimate(text, model) + 10;
+  }
+}
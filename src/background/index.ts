@@ -1,19 +1,59 @@
-import { ExtensionMessage, MessageType, Conversation } from '@/types/extension';
-import { AIProvider, AIRequest, AIResponse } from '@/types/ai';
+import { ExtensionMessage, ExtensionSettings, MessageType, Conversation, StreamClientFrame, StreamServerFrame } from '@/types/extension';
+import { AIProvider, AIErrorCode, AIRequest, AIResponse, FailoverAttempt, StreamChunk, StreamTarget } from '@/types/ai';
 import storageService from '@/services/storage';
+import providerRegistry, { AUTO_PROVIDER } from '@/services/providerRegistry';
+import { CustomEndpointAPI, loadCustomProviders } from '@/services/customEndpoint';
+import { isRetryableError } from '@/services/apiError';
 import { createContextMenus, handleContextMenuClick } from './contextManager';
 import { AIRouter } from './aiRouter';
+import { MetricsTracker } from './metricsTracker';
+import { EmbeddingTaskClassifier, EmbeddingSource } from './taskClassifier';
+import { AnswerJudge } from './answerJudge';
+import { ContextWindowManager } from './contextWindow';
+import { PageSummarizer } from './pageSummarizer';
 import { APIManager } from './apiManager';
+import { ToolContext, ToolRegistry } from './toolRegistry';
+import { createPageTools } from './pageTools';
+import { captureVisibleTab } from './screenCapture';
+import { RequestScheduler } from './requestScheduler';
 import { ContextManager } from './contextManager';
+import { VaultManager } from './vaultManager';
+import { STREAM_PORT_NAME } from '@/utils/streamClient';
+
+interface SendOptions {
+  requestId?: string;
+  signal?: AbortSignal;
+  streamTarget?: StreamTarget;
+  onChunk?: (chunk: StreamChunk) => void;
+  onQueued?: (position: number) => void;
+  toolContext?: ToolContext; // Set for requests made from a page
+}
+
+// Providers whose embeddings the router may classify prompts with, best first
+const EMBEDDING_PROVIDERS: AIProvider[] = ['gemini', 'chatgpt'];
 
 // Initialize services
-const aiRouter = new AIRouter();
-const apiManager = new APIManager();
+const metricsTracker = new MetricsTracker();
+const aiRouter = new AIRouter(metricsTracker, new EmbeddingTaskClassifier(getEmbeddingSource));
+const toolRegistry = new ToolRegistry();
+const apiManager = new APIManager(toolRegistry);
+const requestScheduler = new RequestScheduler();
 const contextManager = new ContextManager();
+const vaultManager = new VaultManager();
+const answerJudge = new AnswerJudge(request => sendToAI(request));
+const contextWindow = new ContextWindowManager(request => sendToAI(request));
+const pageSummarizer = new PageSummarizer((request, options) => sendToAI(request, options));
+
+createPageTools(tabId => contextManager.canReadPage(tabId)).forEach(tool => toolRegistry.register(tool));
+
+// Custom providers must be registered before any request is routed
+const customProvidersReady = loadCustomProviders(createContextMenus).catch(error => {
+  console.error('Failed to load custom providers:', error);
+});
 
 // Initialize context menus when extension is installed or updated
 chrome.runtime.onInstalled.addListener(() => {
-  createContextMenus();
+  customProvidersReady.then(createContextMenus);
   initializeDefaultSettings();
 });
 
@@ -23,6 +63,13 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendRes
   return true; // Indicate we will respond asynchronously
 });
 
+// Handle streaming requests over long-lived ports
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === STREAM_PORT_NAME) {
+    handleStreamPort(port);
+  }
+});
+
 // Handle keyboard shortcuts
 chrome.commands.onCommand.addListener((command) => {
   handleCommand(command);
@@ -47,14 +94,106 @@ async function handleMessage(
   sendResponse: (response: any) => void
 ) {
   try {
+    await customProvidersReady;
+
     switch (message.type) {
       case 'SEND_TO_AI': {
-        const { request } = message.payload;
-        const response = await sendToAI(request);
+        const { request, requestId } = message.payload;
+        const response = await sendToAI(request, {
+          requestId,
+          streamTarget: {
+            tabId: sender.tab?.id,
+            frameId: sender.frameId,
+          },
+          toolContext: sender.tab?.id !== undefined ? { tabId: sender.tab.id } : undefined,
+        });
         sendResponse(response);
         break;
       }
 
+      case 'GET_RATE_LIMITS': {
+        const statuses = await Promise.all(
+          providerRegistry.ids().map(async id => [id, await apiManager.getRateLimitStatus(id)] as const)
+        );
+        sendResponse(Object.fromEntries(statuses));
+        break;
+      }
+
+      case 'GET_METRICS': {
+        sendResponse(await metricsTracker.getAllMetrics());
+        break;
+      }
+
+      case 'RESET_METRICS': {
+        await metricsTracker.reset();
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'ROUTING_FEEDBACK': {
+        const { taskType, provider, signal } = message.payload;
+        await aiRouter.recordFeedback(taskType, provider, signal);
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'JUDGE_ANSWERS': {
+        const { prompt, candidates, taskType, judge } = message.payload;
+        const settings = await storageService.getSettings();
+        // A judge picked for this comparison uses that provider's configured model
+        const judgeSettings = judge
+          ? { ...settings.routing.judge, provider: judge.provider, model: judge.model }
+          : { ...settings.routing.judge };
+        judgeSettings.model = judgeSettings.model || settings.providers[judgeSettings.provider]?.model;
+        const verdict = await answerJudge.judge(prompt, candidates, judgeSettings, taskType);
+
+        // The judge's pick counts toward the router's preferences for this task type
+        if (judgeSettings.learnFromVerdicts && taskType) {
+          const { winner, losers } = answerJudge.getOutcome(verdict);
+          if (winner) await aiRouter.recordFeedback(taskType, winner.provider, 'judge_win');
+          for (const loser of losers) {
+            await aiRouter.recordFeedback(taskType, loser.provider, 'judge_loss');
+          }
+        }
+
+        sendResponse({ verdict });
+        break;
+      }
+
+      case 'CAPTURE_VISIBLE_TAB': {
+        const windowId = sender.tab?.windowId;
+        if (windowId === undefined) {
+          throw new Error('Screenshots can only be taken from a page');
+        }
+        const { region, viewportWidth } = message.payload || {};
+        sendResponse({ image: await captureVisibleTab(windowId, region, viewportWidth) });
+        break;
+      }
+
+      case 'GET_ROUTING_PREFERENCES': {
+        sendResponse(await aiRouter.getPreferences());
+        break;
+      }
+
+      case 'RESET_ROUTING_PREFERENCES': {
+        await aiRouter.resetPreferences(message.payload?.taskType);
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'EXPLAIN_ROUTING': {
+        const { request } = message.payload;
+        sendResponse(await aiRouter.explainRouting(request));
+        break;
+      }
+
+      case 'CANCEL_REQUEST': {
+        const { requestId } = message.payload;
+        apiManager.cancelRequest(requestId);
+        sendResponse({ success: true });
+        break;
+      }
+
       case 'GET_CONTEXT': {
         const tabId = sender.tab?.id;
         if (tabId) {
@@ -97,12 +236,52 @@ async function handleMessage(
       }
 
       case 'API_KEY_UPDATED': {
-        const { provider, apiKey, masterPassword } = message.payload;
-        await storageService.saveAPIKey(provider, apiKey, masterPassword);
+        const { provider, apiKey } = message.payload;
+        const secret = await vaultManager.getSecret();
+        if (!secret) {
+          sendResponse({ error: 'Vault is locked', errorCode: 'vault_locked' });
+          break;
+        }
+        await storageService.saveAPIKey(provider, apiKey, secret);
         sendResponse({ success: true });
         break;
       }
 
+      case 'GET_VAULT_STATUS': {
+        const status = await vaultManager.getStatus();
+        sendResponse(status);
+        break;
+      }
+
+      case 'UNLOCK_VAULT': {
+        const { password } = message.payload;
+        const unmigratedKeys = await vaultManager.unlock(password);
+        sendResponse({ success: true, unmigratedKeys });
+        break;
+      }
+
+      case 'LOCK_VAULT': {
+        await vaultManager.lock();
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'CHANGE_MASTER_PASSWORD': {
+        const { oldPassword, newPassword } = message.payload;
+        await vaultManager.changeMasterPassword(oldPassword, newPassword);
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'DISCOVER_MODELS': {
+        const { endpoint, apiKey } = message.payload;
+        const api = new CustomEndpointAPI(endpoint);
+        api.configure({ apiKey: apiKey || '' });
+        const models = await api.getModels();
+        sendResponse({ models });
+        break;
+      }
+
       case 'TOGGLE_SIDEBAR': {
         const tabId = sender.tab?.id;
         if (tabId) {
@@ -121,6 +300,17 @@ async function handleMessage(
         break;
       }
 
+      case 'OPEN_COMPARISON_MODE': {
+        // The comparison view lives in the tab's sidebar. Requests from the
+        // popup go to the active tab.
+        const [activeTab] = sender.tab ? [sender.tab] : await chrome.tabs.query({ active: true, currentWindow: true });
+        if (activeTab?.id) {
+          chrome.tabs.sendMessage(activeTab.id, { type: 'OPEN_COMPARISON_MODE', payload: message.payload });
+          sendResponse({ success: true });
+        }
+        break;
+      }
+
       default:
         sendResponse({ error: `Unknown message type: ${message.type}` });
     }
@@ -130,6 +320,78 @@ async function handleMessage(
   }
 }
 
+// Stream a single request over a port. The client picks the request ID;
+// closing the port or sending a cancel frame aborts the upstream request.
+function handleStreamPort(port: chrome.runtime.Port) {
+  const abortController = new AbortController();
+  let connected = true;
+
+  const post = (frame: StreamServerFrame) => {
+    if (connected) {
+      port.postMessage(frame);
+    }
+  };
+
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    abortController.abort();
+  });
+
+  port.onMessage.addListener(async (frame: StreamClientFrame) => {
+    if (frame.type === 'cancel') {
+      abortController.abort();
+      return;
+    }
+
+    const { requestId } = frame;
+
+    try {
+      await customProvidersReady;
+      post({ type: 'start', requestId });
+
+      const onChunk = (chunk: StreamChunk) => post({ type: 'chunk', requestId, chunk });
+      let response: AIResponse;
+
+      if (frame.type === 'summarize_page') {
+        // Chunks are sized for the model that will read them
+        const settings = await storageService.getSettings();
+        response = await pageSummarizer.summarize(
+          { ...frame.request, model: frame.request.model || settings.providers[frame.request.provider]?.model },
+          {
+            signal: abortController.signal,
+            onChunk,
+            onProgress: (progress) => post({ type: 'progress', requestId, progress }),
+          }
+        );
+      } else {
+        response = await sendToAI(frame.request, {
+          requestId,
+          signal: abortController.signal,
+          onChunk,
+          onQueued: (position) => post({ type: 'queued', requestId, position }),
+          toolContext: port.sender?.tab?.id !== undefined ? { tabId: port.sender.tab.id } : undefined,
+        });
+      }
+
+      if (abortController.signal.aborted) return;
+
+      if (response.error) {
+        post({ type: 'error', requestId, error: response.error, errorCode: response.errorCode });
+        return;
+      }
+
+      if (response.usage) {
+        post({ type: 'usage', requestId, usage: response.usage, cost: response.cost });
+      }
+      post({ type: 'end', requestId, response });
+    } catch (error: any) {
+      console.error('Error handling stream request:', error);
+      if (abortController.signal.aborted) return;
+      post({ type: 'error', requestId, error: error?.message || 'Request failed' });
+    }
+  });
+}
+
 // Handle keyboard shortcuts
 async function handleCommand(command: string) {
   const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -149,54 +411,145 @@ async function handleCommand(command: string) {
   }
 }
 
-// Send request to AI provider
-async function sendToAI(request: AIRequest): Promise<AIResponse> {
+// Send request to AI provider, failing over along the user's chain when
+// the provider is rate limited or unavailable
+async function sendToAI(request: AIRequest, options: SendOptions = {}): Promise<AIResponse> {
   try {
     const settings = await storageService.getSettings();
+    requestScheduler.configure(settings.advanced, settings.providers);
+
+    // Determine which provider to use. Choosing "Auto" routes even when
+    // auto-routing is off by default.
+    let provider = request.provider === AUTO_PROVIDER ? '' : request.provider;
+    const autoRouted = !provider && (request.provider === AUTO_PROVIDER || settings.general.autoRouting);
 
-    // Determine which provider to use
-    let provider = request.provider;
+    // Classified once for routing, the response and the failover chain
+    const classification = await aiRouter.classify(request);
 
-    if (!provider && settings.general.autoRouting) {
-      // Use AI router to determine best provider
-      provider = await aiRouter.route(request);
+    if (autoRouted) {
+      // Use AI router to determine the best provider and model
+      const decision = await aiRouter.route(request, classification);
+      provider = decision.provider;
+      request = { ...request, model: decision.model };
     } else if (!provider) {
       provider = settings.general.defaultProvider;
     }
 
-    // Get API key for the provider
-    const masterPassword = await getMasterPassword(); // You'll need to implement this
-    const apiKey = await storageService.getAPIKey(provider, masterPassword);
+    // Images need a vision model and reasoning a reasoning model. The router
+    // only picks capable ones; for a provider the user chose, switch to its
+    // closest model that can handle the request.
+    const capabilities = aiRouter.getRequiredCapabilities(request);
+    if (!autoRouted) {
+      const modelId = request.model || settings.providers[provider]?.model || '';
+      const model = providerRegistry.findModel(modelId, provider);
+      const missing = capabilities.filter(c => !model?.capabilities.includes(c));
+
+      if (model && missing.length > 0) {
+        const capable = providerRegistry.findComparableModel(modelId, provider, undefined, capabilities);
+        if (!capable) {
+          return {
+            provider,
+            model: modelId,
+            content: '',
+            error: `${providerRegistry.get(provider)?.name || provider} has no model that supports ${missing.join(' and ')}`,
+            errorCode: 'bad_request',
+          };
+        }
+        request = { ...request, model: capable.id };
+      }
+    }
 
-    if (!apiKey) {
-      throw new Error(`API key not found for ${provider}`);
+    const { taskType } = classification;
+
+    // Requests from a page may look things up on it; the API manager drops
+    // the tools for models that can't use them
+    if (!request.tools && options.toolContext && settings.privacy.pageTools) {
+      request = { ...request, tools: toolRegistry.getDefinitions() };
+    }
+
+    const credentials = await getCredentials(provider);
+    if (credentials.apiKey === undefined) {
+      return {
+        provider,
+        model: request.model || '',
+        content: '',
+        error: credentials.error,
+        errorCode: credentials.errorCode,
+        taskType,
+        autoRouted,
+      };
     }
 
+    // Screenshots would make huge cache keys and are rarely sent twice
+    const cacheable = settings.advanced.cacheResponses && !capabilities.includes('vision');
+
     // Check cache if enabled
-    if (settings.advanced.cacheResponses) {
-      const cacheKey = generateCacheKey(request);
+    if (cacheable) {
+      const cacheKey = generateCacheKey(request, options.toolContext);
       const cached = await storageService.getCachedResponse(cacheKey);
       if (cached) {
+        // Streaming callers build the answer from chunks, so replay it as one
+        const { content, provider: cachedProvider, model } = cached.response;
+        options.onChunk?.({ delta: content, finished: true, provider: cachedProvider, model });
         return cached.response;
       }
     }
 
-    // Send request to API
-    const response = await apiManager.sendRequest({
-      ...request,
-      provider,
-      apiKey,
-      settings: settings.providers[provider],
-    });
+    let response = await sendToProvider({ ...request, provider }, credentials.apiKey, settings, options);
+
+    const requestedModel = request.model || settings.providers[provider]?.model || '';
+    const attempts: FailoverAttempt[] = [];
+
+    for (const fallback of await aiRouter.getFailoverChain(request, provider, classification)) {
+      if (!shouldFailOver(response, options)) break;
+
+      // Only providers the user has a key for, and a model fit for the
+      // request, can take over
+      const fallbackCredentials = await getCredentials(fallback);
+      if (fallbackCredentials.apiKey === undefined) continue;
+
+      const model = providerRegistry.findComparableModel(
+        requestedModel,
+        fallback,
+        settings.providers[fallback]?.model,
+        capabilities
+      );
+      if (!model) continue;
+
+      attempts.push({
+        provider: response.provider,
+        model: response.model,
+        error: response.error || '',
+        errorCode: response.errorCode,
+      });
 
-    // Cache response if enabled
-    if (settings.advanced.cacheResponses && response && !response.error) {
-      const cacheKey = generateCacheKey(request);
-      await storageService.setCachedResponse(cacheKey, response, provider);
+      response = await sendToProvider(
+        { ...request, provider: fallback, model: model.id },
+        fallbackCredentials.apiKey,
+        settings,
+        options
+      );
     }
 
-    // Track usage
-    await trackUsage(provider, response);
+    response = { ...response, taskType, autoRouted };
+
+    if (attempts.length > 0) {
+      response = {
+        ...response,
+        failover: {
+          requestedProvider: provider,
+          reason: attempts[0].errorCode || 'unknown',
+          attempts,
+        },
+      };
+    }
+
+    // Cache response if enabled. Answers built from tool results depend on
+    // the page at the time, so they aren't reused.
+    if (cacheable && response && !response.error && !response.toolResults) {
+      const cacheKey = generateCacheKey(request, options.toolContext);
+      await storageService.setCachedResponse(cacheKey, response, response.provider);
+    }
 
     return response;
   } catch (error) {
@@ -210,6 +563,99 @@ async function sendToAI(request: AIRequest): Promise<AIResponse> {
   }
 }
 
+// Send a request to a single provider, once the scheduler lets it through,
+// and record its usage. The history is fitted to the model's context window
+// here since a fallback model may have a smaller one.
+async function sendToProvider(
+  request: AIRequest,
+  apiKey: string,
+  settings: ExtensionSettings,
+  options: SendOptions
+): Promise<AIResponse> {
+  const { onQueued, ...sendOptions } = options;
+
+  const fitted = await contextWindow.fit(
+    { ...request, model: request.model || settings.providers[request.provider]?.model || '' },
+    settings.advanced.historyOverflow
+  );
+  request = fitted.request;
+
+  const response = await requestScheduler.schedule(
+    request.provider,
+    () => apiManager.sendRequest({
+      ...request,
+      apiKey,
+      settings: settings.providers[request.provider],
+      ...sendOptions,
+    }),
+    { priority: request.priority, signal: options.signal, onQueued }
+  );
+
+  requestScheduler.updateRateLimits(request.provider, await apiManager.getRateLimitStatus(request.provider));
+
+  // Track usage
+  metricsTracker.record(response);
+  await trackUsage(request.provider, response);
+
+  return { ...response, contextWindow: fitted.contextWindow };
+}
+
+// Get the API key for a provider. Keyless endpoints such as a local
+// Ollama server work without unlocking the vault.
+async function getCredentials(
+  provider: AIProvider
+): Promise<{ apiKey?: string; error?: string; errorCode?: AIErrorCode }> {
+  if (providerRegistry.get(provider)?.requiresApiKey === false) {
+    return { apiKey: '' };
+  }
+
+  const secret = await vaultManager.getSecret();
+  if (!secret) {
+    return {
+      error: 'Vault is locked. Enter your master password to continue.',
+      errorCode: 'vault_locked',
+    };
+  }
+
+  const apiKey = await vaultManager.getAPIKey(provider, secret);
+  if (!apiKey) {
+    return {
+      error: `API key not found for ${provider}`,
+      errorCode: 'missing_api_key',
+    };
+  }
+
+  return { apiKey };
+}
+
+// First enabled embedding provider the user has a key for, if any
+async function getEmbeddingSource(): Promise<EmbeddingSource | null> {
+  const settings = await storageService.getSettings();
+
+  for (const provider of EMBEDDING_PROVIDERS) {
+    if (!settings.providers[provider]?.enabled || !providerRegistry.getAdapter(provider)?.embedText) continue;
+
+    const { apiKey } = await getCredentials(provider);
+    if (!apiKey) continue;
+
+    return {
+      id: provider,
+      embed: (text) => apiManager.embedText(provider, apiKey, text),
+    };
+  }
+
+  return null;
+}
+
+// Fail over only on transient errors, and never once part of the answer
+// has been streamed to the caller
+function shouldFailOver(response: AIResponse, options: SendOptions): boolean {
+  return !!response.error &&
+    isRetryableError(response.errorCode) &&
+    !response.content &&
+    !options.signal?.aborted;
+}
+
 // Initialize default settings on first install
 async function initializeDefaultSettings() {
   const settings = await storageService.get('settings', 'sync');
@@ -219,13 +665,19 @@ async function initializeDefaultSettings() {
 }
 
 // Generate cache key for request
-function generateCacheKey(request: AIRequest): string {
+// Answers given with page tools may depend on the page, so the tools and
+// the tab they read from are part of the key
+function generateCacheKey(request: AIRequest, toolContext?: ToolContext): string {
   const key = JSON.stringify({
     provider: request.provider,
     model: request.model,
     messages: request.messages,
     temperature: request.temperature,
     maxTokens: request.maxTokens,
+    responseSchema: request.responseSchema,
+    reasoning: request.reasoning,
+    tools: request.tools?.map(tool => tool.name),
+    toolContext,
   });
   return btoa(key);
 }
@@ -246,6 +698,7 @@ async function trackUsage(provider: AIProvider, response: AIResponse) {
   if (response.usage) {
     usage.totalTokens.input += response.usage.inputTokens || 0;
     usage.totalTokens.output += response.usage.outputTokens || 0;
+    usage.totalTokens.reasoning = (usage.totalTokens.reasoning || 0) + (response.usage.reasoningTokens || 0);
   }
   if (response.cost) {
     usage.totalCost += response.cost;
@@ -266,6 +719,8 @@ async function trackUsage(provider: AIProvider, response: AIResponse) {
   if (response.usage) {
     usage.byProvider[provider].tokens.input += response.usage.inputTokens || 0;
     usage.byProvider[provider].tokens.output += response.usage.outputTokens || 0;
+    usage.byProvider[provider].tokens.reasoning =
+      (usage.byProvider[provider].tokens.reasoning || 0) + (response.usage.reasoningTokens || 0);
   }
   if (response.cost) {
     usage.byProvider[provider].cost += response.cost;
@@ -273,6 +728,11 @@ async function trackUsage(provider: AIProvider, response: AIResponse) {
   if (response.error) {
     usage.byProvider[provider].errors++;
   }
+  if (response.responseTime !== undefined) {
+    // Running mean over every request made to the provider
+    const stats = usage.byProvider[provider];
+    stats.averageResponseTime += (response.responseTime - stats.averageResponseTime) / stats.requests;
+  }
 
   // Update daily usage
   const today = new Date().toISOString().split('T')[0];
@@ -319,15 +779,6 @@ async function trackUsage(provider: AIProvider, response: AIResponse) {
   await storageService.set('usage', usage, 'local');
 }
 
-// Get master password (you'll need to implement a secure way to get this)
-async function getMasterPassword(): Promise<string> {
-  // This is a placeholder - in production, you'd want to:
-  // 1. Prompt user for master password on first use
-  // 2. Store it securely in memory during session
-  // 3. Require re-entry after certain period or on browser restart
-  return 'temporary-master-password'; // TODO: Implement secure master password handling
-}
-
 // Listen for extension icon clicks
 chrome.action.onClicked.addListener((tab) => {
   if (tab.id) {
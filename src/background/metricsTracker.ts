@@ -0,0 +1,153 @@
+import { AIProvider, AIErrorCode, AIResponse } from '@/types/ai';
+import { MeasuredMetrics, MetricSample, Percentiles } from '@/types/provider';
+import storageService from '@/services/storage';
+import { TokenCounter } from '@/utils/tokenCounter';
+
+// Samples kept per model; older ones roll off
+const WINDOW_SIZE = 100;
+
+// Batch storage writes rather than writing after every request
+const SAVE_DELAY = 5000;
+
+// Failures that say nothing about how the provider is doing
+const IGNORED_ERRORS: AIErrorCode[] = ['cancelled', 'vault_locked', 'missing_api_key', 'auth_error'];
+
+/**
+ * Rolling latency, throughput and error metrics for every model that has
+ * answered a request, persisted across service worker restarts
+ */
+export class MetricsTracker {
+  private samples: Record<string, MetricSample[]> = {};
+  private loaded: Promise<void>;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.loaded = this.load();
+  }
+
+  private async load() {
+    const stored = await storageService.get('metrics', 'local') || {};
+    // Keep anything recorded while we were loading
+    Object.entries(this.samples).forEach(([key, samples]) => {
+      stored[key] = [...(stored[key] || []), ...samples].slice(-WINDOW_SIZE);
+    });
+    this.samples = stored;
+  }
+
+  /**
+   * Record a finished request
+   */
+  record(response: AIResponse): void {
+    if (!response.model || response.responseTime === undefined) return;
+    if (response.errorCode && IGNORED_ERRORS.includes(response.errorCode)) return;
+
+    const sample: MetricSample = {
+      timestamp: Date.now(),
+      latency: response.responseTime,
+      timeToFirstToken: response.timeToFirstToken,
+      tokensPerSecond: this.getTokensPerSecond(response),
+      errorCode: response.error ? response.errorCode || 'unknown' : undefined,
+    };
+
+    const key = this.getKey(response.provider, response.model);
+    this.samples[key] = [...(this.samples[key] || []), sample].slice(-WINDOW_SIZE);
+    this.scheduleSave();
+  }
+
+  /**
+   * Resolves once stored samples have been loaded
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Summary for one model, or for all of a provider's models when `model`
+   * is omitted. Undefined until something has been recorded.
+   */
+  getMetrics(provider: AIProvider, model?: string): MeasuredMetrics | undefined {
+    const samples = model
+      ? this.samples[this.getKey(provider, model)] || []
+      : Object.entries(this.samples)
+          .filter(([key]) => key.startsWith(`${provider}/`))
+          .flatMap(([, modelSamples]) => modelSamples);
+
+    return samples.length > 0 ? this.summarize(samples) : undefined;
+  }
+
+  /**
+   * Summaries for every model with samples, keyed by provider/model
+   */
+  async getAllMetrics(): Promise<Record<string, MeasuredMetrics>> {
+    await this.loaded;
+
+    const result: Record<string, MeasuredMetrics> = {};
+    Object.entries(this.samples).forEach(([key, samples]) => {
+      if (samples.length > 0) result[key] = this.summarize(samples);
+    });
+    return result;
+  }
+
+  async reset(): Promise<void> {
+    await this.loaded;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.samples = {};
+    await storageService.remove('metrics', 'local');
+  }
+
+  private summarize(samples: MetricSample[]): MeasuredMetrics {
+    const successes = samples.filter(s => !s.errorCode);
+    const errorsByCode: MeasuredMetrics['errorsByCode'] = {};
+    samples.forEach(s => {
+      if (s.errorCode) errorsByCode[s.errorCode] = (errorsByCode[s.errorCode] || 0) + 1;
+    });
+
+    return {
+      requests: samples.length,
+      successRate: successes.length / samples.length,
+      errorsByCode,
+      latency: percentiles(successes.map(s => s.latency)),
+      timeToFirstToken: percentiles(successes.map(s => s.timeToFirstToken)),
+      tokensPerSecond: percentiles(successes.map(s => s.tokensPerSecond)),
+    };
+  }
+
+  /**
+   * Output tokens per second of generation. For streams the clock starts at
+   * the first token, so waiting for the model doesn't count.
+   */
+  private getTokensPerSecond(response: AIResponse): number | undefined {
+    if (response.error || !response.content) return undefined;
+
+    const outputTokens = response.usage?.outputTokens || TokenCounter.estimate(response.content, response.model);
+    const generationTime = (response.responseTime || 0) - (response.timeToFirstToken || 0);
+    if (generationTime <= 0) return undefined;
+
+    return outputTokens / (generationTime / 1000);
+  }
+
+  private getKey(provider: AIProvider, model: string): string {
+    return `${provider}/${model}`;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      await this.loaded;
+      await storageService.set('metrics', this.samples, 'local');
+    }, SAVE_DELAY);
+  }
+}
+
+function percentiles(values: (number | undefined)[]): Percentiles | undefined {
+  const sorted = values.filter((v): v is number => v !== undefined).sort((a, b) => a - b);
+  if (sorted.length === 0) return undefined;
+
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return { p50: at(0.5), p95: at(0.95) };
+}
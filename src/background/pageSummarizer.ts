@@ -0,0 +1,190 @@
+import { AIRequest, AIResponse, PageSummaryProgress, PageSummaryRequest, StreamChunk } from '@/types/ai';
+import providerRegistry from '@/services/providerRegistry';
+import { TokenCounter } from '@/utils/tokenCounter';
+
+interface SummarySendOptions {
+  signal?: AbortSignal;
+  onChunk?: (chunk: StreamChunk) => void;
+}
+
+interface SummarizeOptions extends SummarySendOptions {
+  onProgress?: (progress: PageSummaryProgress) => void;
+}
+
+// Chunks are sized to a quarter of the context window, within these bounds
+const MIN_CHUNK_TOKENS = 1000;
+const MAX_CHUNK_TOKENS = 6000;
+
+// Assumed when the model isn't known yet, e.g. when routing picks it
+const DEFAULT_CONTEXT_TOKENS = 16000;
+
+const NOTES_TOKENS = 600;
+const SUMMARY_TOKENS = 2000;
+
+// Notes are combined in rounds until they fit in one request; each round
+// roughly halves them, so this is plenty for any page
+const MAX_REDUCE_ROUNDS = 6;
+
+const NOTES_SYSTEM_PROMPT = `You take notes on part of a web page for a summary that will be written later.
+Write short bullet points covering the key facts, claims, numbers and conclusions. Leave out navigation, ads and boilerplate.
+End every bullet with the section tag it came from, such as [§3]. Reply with the bullets only.`;
+
+const COMBINE_SYSTEM_PROMPT = `You merge notes on parts of a web page into fewer, shorter notes.
+Combine overlapping points and drop minor details, but keep the section tags such as [§3] on every bullet, merging tags when points merge.
+Reply with the bullets only.`;
+
+const SUMMARY_SYSTEM_PROMPT = `You write the summary of a web page from notes taken on its sections.
+Open with a one or two sentence overview, then cover the main points in order.
+Cite the sections each point came from using their tags, such as [§3] or [§2, §5]. Do not cite sections that aren't in the notes.`;
+
+/**
+ * Summarizes pages too long for one request. Each section is split into
+ * chunks that are summarized in parallel, the notes are merged in rounds
+ * until they fit in one request, and a final request writes the summary
+ * citing the section each point came from.
+ */
+export class PageSummarizer {
+  constructor(private send: (request: AIRequest, options: SummarySendOptions) => Promise<AIResponse>) {}
+
+  async summarize(request: PageSummaryRequest, options: SummarizeOptions = {}): Promise<AIResponse> {
+    const model = request.model || providerRegistry.getDefaultModel(request.provider)?.id || '';
+    const limit = providerRegistry.findModel(model, request.provider)?.maxTokens || DEFAULT_CONTEXT_TOKENS;
+    const chunkTokens = Math.min(MAX_CHUNK_TOKENS, Math.max(MIN_CHUNK_TOKENS, Math.floor(limit / 4)));
+
+    const chunks = request.sections.flatMap((section, index) =>
+      TokenCounter.chunk(section.text, chunkTokens, model).map(text => ({ tag: `§${index + 1}`, title: section.title, text }))
+    );
+    if (chunks.length === 0) {
+      return { provider: request.provider, model, content: '', error: 'The page has no text to summarize' };
+    }
+
+    const responses: AIResponse[] = [];
+    const run = async (prompts: string[], systemPrompt: string, stage: PageSummaryProgress['stage']) => {
+      let completed = 0;
+      options.onProgress?.({ stage, completed, total: prompts.length });
+
+      const results = await Promise.all(prompts.map(async prompt => {
+        const response = await this.send({
+          provider: request.provider,
+          model,
+          systemPrompt,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.2,
+          maxTokens: NOTES_TOKENS,
+          priority: 'bulk',
+        }, { signal: options.signal });
+
+        options.onProgress?.({ stage, completed: ++completed, total: prompts.length });
+        return response;
+      }));
+
+      responses.push(...results);
+      return results;
+    };
+
+    // Map: notes on every chunk. A page that fits in one chunk skips this.
+    let notes: string[];
+    if (chunks.length === 1) {
+      notes = [`${chunks[0].tag} ${chunks[0].title}\n${chunks[0].text}`];
+    } else {
+      const results = await run(
+        chunks.map(chunk => this.buildNotesPrompt(request, chunk)),
+        NOTES_SYSTEM_PROMPT,
+        'map'
+      );
+      const failed = results.find(r => r.error);
+      if (failed) return { ...failed, error: `Failed to summarize the page: ${failed.error}` };
+      notes = results.map(r => r.content.trim());
+    }
+
+    // Reduce: merge batches of notes until they fit in the final request
+    for (let round = 0; round < MAX_REDUCE_ROUNDS && notes.length > 1; round++) {
+      const batches = this.batch(notes, chunkTokens, model);
+      if (batches.length === 1) break;
+
+      const results = await run(
+        batches.map(batch => `Notes on "${request.title}":\n\n${batch.join('\n\n')}`),
+        COMBINE_SYSTEM_PROMPT,
+        'reduce'
+      );
+      const failed = results.find(r => r.error);
+      if (failed) return { ...failed, error: `Failed to summarize the page: ${failed.error}` };
+      notes = results.map(r => r.content.trim());
+    }
+
+    options.onProgress?.({ stage: 'final', completed: 0, total: 1 });
+
+    const final = await this.send({
+      provider: request.provider,
+      model,
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: this.buildSummaryPrompt(request, notes.join('\n\n'), chunkTokens, model) }],
+      temperature: 0.3,
+      maxTokens: SUMMARY_TOKENS,
+      stream: !!options.onChunk,
+      priority: 'interactive',
+    }, options);
+    if (final.error) return final;
+
+    // List the cited sections under the summary so the tags can be looked up
+    const sectionList = `\n\n**Sections**\n${request.sections.map((s, i) => `- §${i + 1} ${s.title}`).join('\n')}`;
+    options.onChunk?.({ delta: sectionList, finished: true, provider: final.provider, model: final.model });
+
+    return {
+      ...final,
+      content: final.content + sectionList,
+      ...this.totalUsage([...responses, final]),
+    };
+  }
+
+  private buildNotesPrompt(request: PageSummaryRequest, chunk: { tag: string; title: string; text: string }): string {
+    return [
+      `Page: ${request.title} (${request.url})`,
+      request.instructions ? `The reader wants to know: ${request.instructions}` : '',
+      `Section ${chunk.tag}: ${chunk.title}\n<<<\n${chunk.text}\n>>>`,
+    ].filter(Boolean).join('\n\n');
+  }
+
+  private buildSummaryPrompt(request: PageSummaryRequest, notes: string, maxTokens: number, model: string): string {
+    return [
+      `Page: ${request.title} (${request.url})`,
+      request.instructions ? `The reader asked: ${request.instructions}` : '',
+      `Notes:\n${TokenCounter.truncate(notes, maxTokens, model)}`,
+    ].filter(Boolean).join('\n\n');
+  }
+
+  // Groups of consecutive notes that fit in one request. Merging neighbours
+  // keeps the summary in page order.
+  private batch(notes: string[], maxTokens: number, model: string): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    for (const note of notes) {
+      const noteTokens = TokenCounter.estimate(note, model);
+      if (current.length > 0 && tokens + noteTokens > maxTokens) {
+        batches.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(note);
+      tokens += noteTokens;
+    }
+    if (current.length > 0) batches.push(current);
+
+    return batches;
+  }
+
+  private totalUsage(responses: AIResponse[]): Pick<AIResponse, 'usage' | 'cost'> {
+    const usage = responses.reduce(
+      (total, r) => ({
+        inputTokens: total.inputTokens + (r.usage?.inputTokens || 0),
+        outputTokens: total.outputTokens + (r.usage?.outputTokens || 0),
+        totalTokens: total.totalTokens + (r.usage?.totalTokens || 0),
+      }),
+      { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+    );
+    const cost = responses.reduce((total, r) => total + (r.cost || 0), 0);
+    return { usage, cost: cost || undefined };
+  }
+}
@@ -0,0 +1,77 @@
+import { RegisteredTool, ToolContext } from './toolRegistry';
+
+/**
+ * Built-in tools that read the page a request came from. They run in the
+ * tab's content script, and only where privacy settings allow it.
+ */
+export function createPageTools(canReadPage: (tabId: number) => Promise<boolean>): RegisteredTool[] {
+  const runInTab = async (name: string, args: Record<string, any>, context: ToolContext): Promise<string> => {
+    if (context.tabId === undefined) {
+      throw new Error('There is no page to read for this request');
+    }
+    if (!(await canReadPage(context.tabId))) {
+      throw new Error('The user has not allowed reading this page');
+    }
+
+    const response = await chrome.tabs.sendMessage(context.tabId, {
+      type: 'RUN_PAGE_TOOL',
+      payload: { name, args },
+    }, { frameId: 0 }); // The top frame is the page the user is looking at
+
+    if (!response || response.error) {
+      throw new Error(response?.error || 'The page could not be read');
+    }
+    return response.content;
+  };
+
+  return [
+    {
+      definition: {
+        name: 'get_page_headings',
+        description: 'Get the outline of the current web page as a list of its headings, indented by level.',
+        parameters: { type: 'object', properties: {} },
+      },
+      run: (args, context) => runInTab('get_page_headings', args, context),
+    },
+    {
+      definition: {
+        name: 'get_page_tables',
+        description: 'Get the tables on the current web page as markdown tables.',
+        parameters: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', description: 'Maximum number of tables to return, default 5' },
+          },
+        },
+      },
+      run: (args, context) => runInTab('get_page_tables', args, context),
+    },
+    {
+      definition: {
+        name: 'get_page_links',
+        description: 'Get the links on the current web page with their text and URL.',
+        parameters: {
+          type: 'object',
+          properties: {
+            contains: { type: 'string', description: 'Only return links whose text or URL contains this' },
+            limit: { type: 'integer', description: 'Maximum number of links to return, default 50' },
+          },
+        },
+      },
+      run: (args, context) => runInTab('get_page_links', args, context),
+    },
+    {
+      definition: {
+        name: 'get_page_code_blocks',
+        description: 'Get the code blocks on the current web page.',
+        parameters: {
+          type: 'object',
+          properties: {
+            language: { type: 'string', description: 'Only return blocks marked as this language, e.g. python' },
+          },
+        },
+      },
+      run: (args, context) => runInTab('get_page_code_blocks', args, context),
+    },
+  ];
+}
@@ -0,0 +1,233 @@
+import { AIProvider, RequestPriority } from '@/types/ai';
+import { AdvancedSettings, ProviderSettings } from '@/types/extension';
+import { RateLimitStatus } from '@/types/provider';
+import { getBlockedUntil } from '@/services/rateLimit';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  bulk: 2,
+};
+
+interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  onQueued?: (position: number) => void; // Called whenever the position changes
+}
+
+interface QueuedTask {
+  provider: AIProvider;
+  priority: RequestPriority;
+  position: number;
+  onQueued?: (position: number) => void;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Token bucket that refills continuously up to one minute's worth of requests
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(public readonly perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  /**
+   * Milliseconds until a token is available, 0 if one is available now
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 60000 / this.perMinute);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.perMinute, this.tokens + (now - this.lastRefill) * this.perMinute / 60000);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Gates outgoing provider requests on the rate limits and concurrency set in
+ * the advanced settings, and on limits providers report in their responses.
+ * Waiting requests start in priority order, then in the order they arrived.
+ */
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private concurrency = 3;
+  private rateLimitingEnabled = true;
+  private globalBucket: TokenBucket | null = null;
+  private providerBuckets: Map<AIProvider, TokenBucket> = new Map();
+  private providerLimits: Map<AIProvider, number> = new Map();
+  private blockedUntil: Map<AIProvider, number> = new Map();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Apply the current settings. Buckets are only rebuilt when a limit changes
+   * so requests already counted stay counted.
+   */
+  configure(advanced: AdvancedSettings, providers: Record<AIProvider, ProviderSettings>): void {
+    this.concurrency = Math.max(1, advanced.concurrentRequests || 1);
+    this.rateLimitingEnabled = advanced.rateLimiting.enabled;
+
+    const perMinute = advanced.rateLimiting.requestsPerMinute;
+    if (this.globalBucket?.perMinute !== perMinute) {
+      this.globalBucket = perMinute > 0 ? new TokenBucket(perMinute) : null;
+    }
+
+    this.providerLimits.clear();
+    Object.entries(providers).forEach(([provider, settings]) => {
+      this.providerLimits.set(provider, settings.requestsPerMinute ?? perMinute);
+    });
+
+    this.pump();
+  }
+
+  /**
+   * Run `task` once a concurrency slot and rate limit tokens are free
+   */
+  schedule<T>(provider: AIProvider, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'normal', signal, onQueued } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+
+      const onAbort = () => queued.cancel();
+
+      const queued: QueuedTask = {
+        provider,
+        priority,
+        position: 0,
+        onQueued,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.running++;
+
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.pump();
+            });
+        },
+        cancel: () => {
+          this.queue = this.queue.filter(t => t !== queued);
+          reject(this.cancelledError());
+          this.pump();
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.insert(queued);
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold back requests to a provider that has reported an exhausted limit
+   * until it resets
+   */
+  updateRateLimits(provider: AIProvider, status: RateLimitStatus): void {
+    this.blockedUntil.set(provider, getBlockedUntil(status));
+    this.pump();
+  }
+
+  private insert(task: QueuedTask): void {
+    const index = this.queue.findIndex(t => PRIORITY_ORDER[t.priority] > PRIORITY_ORDER[task.priority]);
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+  }
+
+  /**
+   * Start as many queued tasks as limits allow. A task held back by its
+   * provider's limit doesn't block tasks for other providers behind it.
+   */
+  private pump(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    let nextWake = Infinity;
+
+    for (const task of [...this.queue]) {
+      if (this.running >= this.concurrency) break;
+
+      const wait = this.getWaitTime(task.provider);
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+
+      if (this.rateLimitingEnabled) {
+        this.globalBucket?.take();
+        this.getProviderBucket(task.provider)?.take();
+      }
+
+      this.queue = this.queue.filter(t => t !== task);
+      task.start();
+    }
+
+    this.reportPositions();
+
+    // Wake up when the next token arrives, unless a finishing task does first
+    if (nextWake !== Infinity && this.running < this.concurrency) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextWake);
+    }
+  }
+
+  private getWaitTime(provider: AIProvider): number {
+    // Limits reported by the provider apply even with local limiting off
+    const blocked = Math.max(0, (this.blockedUntil.get(provider) || 0) - Date.now());
+    if (!this.rateLimitingEnabled) return blocked;
+
+    return Math.max(
+      blocked,
+      this.globalBucket?.waitTime() || 0,
+      this.getProviderBucket(provider)?.waitTime() || 0
+    );
+  }
+
+  private getProviderBucket(provider: AIProvider): TokenBucket | null {
+    const perMinute = this.providerLimits.get(provider) ?? this.globalBucket?.perMinute ?? 0;
+    if (perMinute <= 0) return null;
+
+    let bucket = this.providerBuckets.get(provider);
+    if (!bucket || bucket.perMinute !== perMinute) {
+      bucket = new TokenBucket(perMinute);
+      this.providerBuckets.set(provider, bucket);
+    }
+    return bucket;
+  }
+
+  private reportPositions(): void {
+    this.queue.forEach((task, index) => {
+      const position = index + 1;
+      if (task.position !== position) {
+        task.position = position;
+        task.onQueued?.(position);
+      }
+    });
+  }
+
+  private cancelledError(): Error {
+    const error = new Error('Request was cancelled');
+    error.name = 'AbortError';
+    return error;
+  }
+}
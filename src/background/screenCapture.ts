@@ -0,0 +1,59 @@
+import { ImageContent } from '@/types/ai';
+import { CaptureRegion } from '@/types/extension';
+
+// Bigger screenshots cost more tokens without helping the model
+const MAX_IMAGE_SIDE = 2048;
+
+/**
+ * Screenshot the visible part of a window's active tab, optionally cropped
+ * to a region given in CSS pixels of a viewport `viewportWidth` wide
+ */
+export async function captureVisibleTab(
+  windowId: number,
+  region?: CaptureRegion,
+  viewportWidth?: number
+): Promise<ImageContent> {
+  const dataUrl = await chrome.tabs.captureVisibleTab(windowId, { format: 'png' });
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+
+  // The screenshot is in device pixels
+  const scale = viewportWidth ? bitmap.width / viewportWidth : 1;
+  const crop = region ? clampRegion(region, scale, bitmap) : { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+  if (crop.width < 1 || crop.height < 1) {
+    throw new Error('The selected area is empty');
+  }
+
+  const resize = Math.min(1, MAX_IMAGE_SIDE / Math.max(crop.width, crop.height));
+  if (!region && resize === 1) {
+    return { mediaType: 'image/png', data: dataUrl.split(',')[1] };
+  }
+
+  const canvas = new OffscreenCanvas(Math.round(crop.width * resize), Math.round(crop.height * resize));
+  canvas.getContext('2d')!.drawImage(
+    bitmap,
+    crop.x, crop.y, crop.width, crop.height,
+    0, 0, canvas.width, canvas.height
+  );
+
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return { mediaType: 'image/png', data: toBase64(await blob.arrayBuffer()) };
+}
+
+// Scale a region to device pixels, cut to the part inside the screenshot
+function clampRegion(region: CaptureRegion, scale: number, bitmap: ImageBitmap): CaptureRegion {
+  const left = Math.max(0, Math.round(region.x * scale));
+  const top = Math.max(0, Math.round(region.y * scale));
+  const right = Math.min(bitmap.width, Math.round((region.x + region.width) * scale));
+  const bottom = Math.min(bitmap.height, Math.round((region.y + region.height) * scale));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Spreading a whole screenshot into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
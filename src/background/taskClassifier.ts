@@ -0,0 +1,254 @@
+import { TaskType, TaskClassifier, TaskClassification } from '@/types/ai';
+import storageService from '@/services/storage';
+
+const TASK_KEYWORDS: Record<TaskType, RegExp> = {
+  creative_writing: /\b(write|story|creative|poem|narrative)/i,
+  analysis: /\b(analy[sz]e|analysis|explain|understand)/i,
+  reasoning: /\b(reason|logic|deduce|conclude)/i,
+  code_generation: /\b(code|program|function|implement)/i,
+  debugging: /\b(debug|fix|error|bug)/i,
+  technical_docs: /\b(document|api|technical|specification)/i,
+  research: /\b(research|find|search|information)/i,
+  real_time_info: /\b(latest|current|today|news)/i,
+  translation: /\b(translate|translation|language)/i,
+  summarization: /\b(summari[sz]e|summary|brief|tldr)/i,
+  casual_chat: /\b(chat|talk|hey|hi|hello)\b/i,
+  data_extraction: /\b(extract|parse|data|table)/i,
+};
+
+/**
+ * Keyword matching. Fast and free, but easily fooled; the first task type
+ * with a matching keyword wins.
+ */
+export class KeywordTaskClassifier implements TaskClassifier {
+  readonly id = 'keywords' as const;
+
+  async classify(text: string): Promise<TaskClassification> {
+    for (const [taskType, pattern] of Object.entries(TASK_KEYWORDS)) {
+      if (pattern.test(text)) {
+        return { taskType: taskType as TaskType, confidence: 0.5, classifier: this.id };
+      }
+    }
+
+    return { taskType: 'casual_chat', confidence: 0, classifier: this.id }; // Default
+  }
+}
+
+// Labeled example prompts the centroids are built from. Bump
+// SEED_VERSION whenever they change so cached centroids are rebuilt.
+const SEED_VERSION = 1;
+const SEED_EXAMPLES: Record<TaskType, string[]> = {
+  creative_writing: [
+    'Write a short story about a lighthouse keeper who finds a message in a bottle',
+    'Compose a poem about autumn rain',
+    'Draft a wedding toast for my best friend',
+    'Come up with a plot for a mystery novel set on a train',
+  ],
+  analysis: [
+    'What are the strengths and weaknesses of this business plan?',
+    'Compare these two approaches and tell me which one is better and why',
+    'Break down the main arguments in this article',
+    'What does this quarterly report say about the company’s growth?',
+  ],
+  reasoning: [
+    'If all bloops are razzies and some razzies are lazzies, are some bloops lazzies?',
+    'Work through this puzzle step by step',
+    'A train leaves at 3pm going 60 mph; when does it catch the one that left at 2pm going 40 mph?',
+    'Is this argument logically valid?',
+  ],
+  code_generation: [
+    'Write a TypeScript function that deduplicates an array of objects by id',
+    'Create a Python script that renames all files in a folder',
+    'Implement a React hook that debounces a value',
+    'Write a SQL query that returns the top five customers by revenue',
+  ],
+  debugging: [
+    'Why does this code throw "undefined is not a function"?',
+    'My test fails with a null pointer exception, what is wrong?',
+    'This loop never terminates, can you find the bug?',
+    'I get a CORS error when calling my API from the browser',
+  ],
+  technical_docs: [
+    'Write API documentation for this endpoint',
+    'Create a README for this project',
+    'Document the parameters and return value of this function',
+    'Write a technical specification for a file upload service',
+  ],
+  research: [
+    'What is known about the health effects of intermittent fasting?',
+    'Give me an overview of the history of the printing press',
+    'What are the main theories about the origin of the moon?',
+    'Find sources on remote work productivity',
+  ],
+  real_time_info: [
+    'What is the weather in Paris right now?',
+    'What are today’s top headlines?',
+    'What is the current price of bitcoin?',
+    'Who won the game last night?',
+  ],
+  translation: [
+    'Translate this paragraph into Spanish',
+    'How do you say "good morning" in Japanese?',
+    'Translate this email from German to English',
+    'What does this French sentence mean?',
+  ],
+  summarization: [
+    'Summarize this article in three bullet points',
+    'Give me a TL;DR of this page',
+    'What are the key points of this meeting transcript?',
+    'Condense this report into one paragraph',
+  ],
+  casual_chat: [
+    'Hi, how are you today?',
+    'Tell me a joke',
+    'What should I have for dinner?',
+    'I am bored, let’s chat',
+  ],
+  data_extraction: [
+    'Pull all the email addresses out of this text',
+    'Turn this table into JSON',
+    'List every product name and price on this page',
+    'Extract the dates and amounts from these invoices',
+  ],
+};
+
+// Below this cosine similarity the prompt is too unlike any example to trust
+const MIN_SIMILARITY = 0.5;
+
+// Recently classified prompts, so one request isn't embedded several times
+const RESULT_CACHE_SIZE = 50;
+
+export interface EmbeddingSource {
+  id: string; // Identifies the embedding model; vectors from different ones don't mix
+  embed(text: string): Promise<number[]>;
+}
+
+type Centroids = Partial<Record<TaskType, number[]>>;
+
+/**
+ * Nearest-centroid classification on embeddings. Each task type's centroid
+ * is the mean embedding of its seed examples, built once per embedding
+ * source in the background and cached in local storage. Until the build is
+ * done it doesn't classify, so the keyword classifier is used.
+ */
+export class EmbeddingTaskClassifier implements TaskClassifier {
+  readonly id = 'embeddings' as const;
+  private centroids: Map<string, Centroids> = new Map();
+  private building: Set<string> = new Set();
+  private results: Map<string, TaskClassification | null> = new Map();
+
+  constructor(private getSource: () => Promise<EmbeddingSource | null>) {}
+
+  async classify(text: string): Promise<TaskClassification | null> {
+    const source = await this.getSource();
+    if (!source) return null;
+
+    const cacheKey = `${source.id}:${text}`;
+    if (this.results.has(cacheKey)) {
+      return this.results.get(cacheKey)!;
+    }
+
+    const result = await this.classifyWith(source, text);
+
+    // Don't remember failures, the provider may be back next time
+    if (result) {
+      this.results.set(cacheKey, result);
+      if (this.results.size > RESULT_CACHE_SIZE) {
+        this.results.delete(this.results.keys().next().value as string);
+      }
+    }
+    return result;
+  }
+
+  private async classifyWith(source: EmbeddingSource, text: string): Promise<TaskClassification | null> {
+    const centroids = await this.getCentroids(source);
+    if (!centroids) return null;
+
+    const vector = await source.embed(text);
+    if (vector.length === 0) return null;
+
+    const similarities = (Object.entries(centroids) as [TaskType, number[]][])
+      .map(([taskType, centroid]) => ({ taskType, similarity: cosineSimilarity(vector, centroid) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const [best, runnerUp] = similarities;
+    if (!best || best.similarity < MIN_SIMILARITY) return null;
+
+    // Confidence grows with the lead over the next closest task type
+    const margin = best.similarity - (runnerUp?.similarity ?? 0);
+    return {
+      taskType: best.taskType,
+      confidence: Math.min(1, 0.5 + margin * 5),
+      classifier: this.id,
+    };
+  }
+
+  /**
+   * Centroids for a source if they are built or cached, otherwise null. A
+   * missing or stale set is built in the background.
+   */
+  private async getCentroids(source: EmbeddingSource): Promise<Centroids | null> {
+    const loaded = this.centroids.get(source.id);
+    if (loaded) return loaded;
+
+    const cached = (await storageService.get('taskCentroids', 'local') || {})[source.id];
+    if (cached?.version === SEED_VERSION) {
+      this.centroids.set(source.id, cached.centroids);
+      return cached.centroids;
+    }
+
+    // Embedding the seed set takes dozens of calls; don't hold up the request
+    if (!this.building.has(source.id)) {
+      this.building.add(source.id);
+      this.buildCentroids(source)
+        .catch(error => console.error('Failed to build task centroids:', error))
+        .finally(() => this.building.delete(source.id));
+    }
+    return null;
+  }
+
+  private async buildCentroids(source: EmbeddingSource): Promise<void> {
+    const centroids: Centroids = {};
+
+    for (const [taskType, examples] of Object.entries(SEED_EXAMPLES) as [TaskType, string[]][]) {
+      const vectors: number[][] = [];
+      for (const example of examples) {
+        const vector = await source.embed(example);
+        if (vector.length === 0) return; // Provider failed, try again next time
+        vectors.push(vector);
+      }
+      centroids[taskType] = mean(vectors);
+    }
+
+    const cache = await storageService.get('taskCentroids', 'local') || {};
+    await storageService.set('taskCentroids', {
+      ...cache,
+      [source.id]: { version: SEED_VERSION, centroids, createdAt: Date.now() },
+    }, 'local');
+
+    this.centroids.set(source.id, centroids);
+  }
+}
+
+function mean(vectors: number[][]): number[] {
+  const result = new Array(vectors[0].length).fill(0);
+  vectors.forEach(vector => vector.forEach((value, i) => {
+    result[i] += value / vectors.length;
+  }));
+  return result;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
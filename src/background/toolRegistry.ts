@@ -0,0 +1,51 @@
+import { ToolCall, ToolDefinition, ToolResult } from '@/types/ai';
+
+// What a tool knows about the request that called it
+export interface ToolContext {
+  tabId?: number; // Tab the request came from
+}
+
+export interface RegisteredTool {
+  definition: ToolDefinition;
+  run(args: Record<string, any>, context: ToolContext): Promise<string>;
+}
+
+/**
+ * Tools the model may call during a request. Results are sent back to the
+ * model as text, and failures are reported to it rather than thrown so it
+ * can try something else.
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  register(tool: RegisteredTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { toolCallId: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true };
+    }
+
+    try {
+      const content = await tool.run(call.arguments || {}, context);
+      return { toolCallId: call.id, name: call.name, content };
+    } catch (error) {
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: error instanceof Error ? error.message : String(error),
+        isError: true,
+      };
+    }
+  }
+}
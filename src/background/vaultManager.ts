@@ -0,0 +1,230 @@
+import { VaultConfig, VaultStatus } from '@/types/storage';
+import { AIProvider } from '@/types/ai';
+import storageService from '@/services/storage';
+import encryptionService from '@/services/encryption';
+
+// Keys saved before the vault existed were encrypted with this placeholder
+const LEGACY_MASTER_PASSWORD = 'temporary-master-password';
+const SESSION_KEY = 'vaultSession';
+const MIN_PASSWORD_LENGTH = 8;
+
+interface VaultSession {
+  secret: string;
+  lastActivity: number;
+}
+
+/**
+ * Holds the key-encryption secret derived from the user's master password.
+ * The secret lives only in service worker memory and chrome.storage.session,
+ * so it never touches disk and is dropped when the browser closes.
+ */
+export class VaultManager {
+  private session: VaultSession | null = null;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  // Decrypted API keys, kept while the vault is unlocked with this secret
+  private decryptedKeys: { secret: string; keys: Map<AIProvider, string> } | null = null;
+
+  constructor() {
+    // Saved, removed or re-encrypted keys must be decrypted again
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes.apiKeys) {
+        this.decryptedKeys = null;
+      }
+    });
+  }
+
+  /**
+   * Get the current vault status for the UI
+   */
+  async getStatus(): Promise<VaultStatus> {
+    const config = await storageService.get('vault', 'local');
+    const secret = await this.getSecret(false);
+    const settings = await storageService.getSettings();
+
+    return {
+      initialized: !!config,
+      locked: !secret,
+      autoLockMinutes: settings.privacy.autoLockMinutes,
+    };
+  }
+
+  /**
+   * Unlock the vault, creating it on first use. Returns the providers whose
+   * saved keys couldn't be moved into a new vault and must be entered again.
+   */
+  async unlock(password: string): Promise<AIProvider[]> {
+    const config = await storageService.get('vault', 'local');
+
+    if (!config) {
+      return this.initialize(password);
+    }
+
+    const secret = await encryptionService.deriveSecret(password, config.salt);
+    const verifier = await this.createVerifier(config.salt, secret);
+
+    if (!encryptionService.secureCompare(verifier, config.verifier)) {
+      throw new Error('Incorrect master password');
+    }
+
+    await this.startSession(secret);
+    return [];
+  }
+
+  /**
+   * Change the master password and re-encrypt every stored API key.
+   * The old password is checked against the verifier before anything is read,
+   * and the new keys and vault config are committed in one write so a crash
+   * leaves either the old or the new vault intact.
+   */
+  async changeMasterPassword(oldPassword: string, newPassword: string): Promise<void> {
+    const config = await storageService.get('vault', 'local');
+    if (!config) {
+      throw new Error('Vault has not been set up yet');
+    }
+
+    const oldSecret = await encryptionService.deriveSecret(oldPassword, config.salt);
+    const oldVerifier = await this.createVerifier(config.salt, oldSecret);
+
+    if (!encryptionService.secureCompare(oldVerifier, config.verifier)) {
+      throw new Error('Incorrect master password');
+    }
+
+    this.validatePassword(newPassword);
+
+    const salt = encryptionService.generateSalt();
+    const secret = await encryptionService.deriveSecret(newPassword, salt);
+    const { apiKeys, failed } = await storageService.reencryptAPIKeys(oldSecret, secret);
+    if (failed.length > 0) {
+      throw new Error(`The saved API key for ${failed.join(', ')} could not be decrypted`);
+    }
+
+    const updated: VaultConfig = {
+      ...config,
+      salt,
+      verifier: await this.createVerifier(salt, secret),
+      updatedAt: Date.now(),
+    };
+
+    await storageService.setMany({ apiKeys, vault: updated }, 'local');
+    await this.startSession(secret);
+  }
+
+  /**
+   * Lock the vault and forget the derived secret
+   */
+  async lock(): Promise<void> {
+    this.session = null;
+    this.decryptedKeys = null;
+    this.clearLockTimer();
+    await chrome.storage.session.remove(SESSION_KEY);
+  }
+
+  /**
+   * Get the secret used to encrypt API keys, or null if the vault is locked.
+   * Reading the secret counts as activity unless `touch` is false.
+   */
+  async getSecret(touch: boolean = true): Promise<string | null> {
+    if (!this.session) {
+      const result = await chrome.storage.session.get(SESSION_KEY);
+      this.session = result[SESSION_KEY] || null;
+    }
+
+    if (!this.session) {
+      return null;
+    }
+
+    const { privacy } = await storageService.getSettings();
+    const timeout = privacy.autoLockMinutes * 60000;
+
+    if (timeout > 0 && Date.now() - this.session.lastActivity > timeout) {
+      await this.lock();
+      return null;
+    }
+
+    if (touch) {
+      this.session.lastActivity = Date.now();
+      await chrome.storage.session.set({ [SESSION_KEY]: this.session });
+      this.scheduleAutoLock(timeout);
+    }
+
+    return this.session.secret;
+  }
+
+  /**
+   * Decrypt the saved API key for a provider with the vault secret. Each
+   * decryption derives a key from the secret, so decrypted keys are cached
+   * until the vault locks or the saved keys change.
+   */
+  async getAPIKey(provider: AIProvider, secret: string): Promise<string | null> {
+    if (this.decryptedKeys?.secret !== secret) {
+      this.decryptedKeys = { secret, keys: new Map() };
+    }
+    const cache = this.decryptedKeys;
+
+    const cached = cache.keys.get(provider);
+    if (cached) return cached;
+
+    const apiKey = await storageService.getAPIKey(provider, secret);
+    if (apiKey) cache.keys.set(provider, apiKey);
+    return apiKey;
+  }
+
+  /**
+   * Create the vault on first use and migrate keys saved with the legacy
+   * password. The keys and the vault config are written together, so keys
+   * are never left encrypted under a salt that wasn't saved.
+   */
+  private async initialize(password: string): Promise<AIProvider[]> {
+    this.validatePassword(password);
+
+    const salt = encryptionService.generateSalt();
+    const secret = await encryptionService.deriveSecret(password, salt);
+    const now = Date.now();
+
+    const config: VaultConfig = {
+      salt,
+      verifier: await this.createVerifier(salt, secret),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const { apiKeys, failed } = await storageService.reencryptAPIKeys(LEGACY_MASTER_PASSWORD, secret);
+
+    await storageService.setMany({ apiKeys, vault: config }, 'local');
+    await this.startSession(secret);
+    return failed;
+  }
+
+  private async startSession(secret: string): Promise<void> {
+    this.session = { secret, lastActivity: Date.now() };
+    await chrome.storage.session.set({ [SESSION_KEY]: this.session });
+
+    const { privacy } = await storageService.getSettings();
+    this.scheduleAutoLock(privacy.autoLockMinutes * 60000);
+  }
+
+  private validatePassword(password: string): void {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Master password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  private createVerifier(salt: string, secret: string): Promise<string> {
+    return encryptionService.hash(`${salt}:${secret}`);
+  }
+
+  private scheduleAutoLock(timeout: number): void {
+    this.clearLockTimer();
+    if (timeout > 0) {
+      // Best effort while the worker is alive; getSecret() re-checks after a restart
+      this.lockTimer = setTimeout(() => this.lock(), timeout);
+    }
+  }
+
+  private clearLockTimer(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+  }
+}
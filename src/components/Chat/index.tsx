@@ -9,18 +9,52 @@ import {
   StopCircle,
   Plus,
   AlertCircle,
+  ThumbsUp,
+  ThumbsDown,
+  Camera,
+  Crop,
+  X,
+  Brain,
+  FileText,
 } from 'lucide-react';
-import { AIProvider, AIMessage, AIRequest, StreamChunk } from '@/types/ai';
+import {
+  AIProvider,
+  AIMessage,
+  AIRequest,
+  AIResponse,
+  AIErrorCode,
+  ContextWindowInfo,
+  HistorySummary,
+  ImageContent,
+  JSONSchema,
+  PageSummaryProgress,
+  PreferenceSignal,
+  ReasoningEffort,
+  RoutingStrategy,
+  TaskType,
+} from '@/types/ai';
 import { Conversation } from '@/types/extension';
 import { TokenCounter } from '@/utils/tokenCounter';
 import { CostCalculator } from '@/utils/costCalculator';
+import providerRegistry, { AUTO_PROVIDER } from '@/services/providerRegistry';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { streamAIRequest, streamPageSummary, StreamHandle, StreamHandlers } from '@/utils/streamClient';
 import ReactMarkdown from 'react-markdown';
+import { VaultUnlock } from '../VaultUnlock';
+import { StrategySelector } from '../StrategySelector';
+import { SchemaEditor, StructuredDataView } from '../StructuredData';
+import { Screenshot } from '@/utils/screenshot';
+import { DOMParser } from '@/utils/domParser';
 
 interface ChatInterfaceProps {
   provider: AIProvider;
   conversation: Conversation | null;
   onNewConversation: () => void;
   onUpdateConversation: (conversation: Conversation) => void;
+  incomingImage?: ImageContent | null; // Screenshot taken outside the chat, e.g. from the highlighter
+  onIncomingImageAttached?: () => void;
+  summarizePageRequested?: boolean; // Set from outside the chat, e.g. the command palette
+  onSummarizePageStarted?: () => void;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -28,57 +62,95 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   conversation,
   onNewConversation,
   onUpdateConversation,
+  incomingImage,
+  onIncomingImageAttached,
+  summarizePageRequested,
+  onSummarizePageStarted,
 }) => {
   const [messages, setMessages] = useState<AIMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState('');
+  const [streamingReasoning, setStreamingReasoning] = useState('');
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<PageSummaryProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [tokenCount, setTokenCount] = useState({ input: 0, output: 0 });
   const [estimatedCost, setEstimatedCost] = useState(0);
-  const [activeRequestId, setActiveRequestId] = useState<string | null>(null);
+  const [vaultLocked, setVaultLocked] = useState(false);
+  const [routingStrategy, setRoutingStrategy] = useState<RoutingStrategy | undefined>();
+  const [responseSchema, setResponseSchema] = useState<JSONSchema | undefined>();
+  const [reasoningEffort, setReasoningEffort] = useState<ReasoningEffort | undefined>();
+  const [attachments, setAttachments] = useState<ImageContent[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [historySummary, setHistorySummary] = useState<HistorySummary | undefined>();
+  const [firstMessageInContext, setFirstMessageInContext] = useState(0);
+  const [contextWindow, setContextWindow] = useState<ContextWindowInfo | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamRef = useRef<StreamHandle | null>(null);
+  const previousProviderRef = useRef(provider);
 
   useEffect(() => {
     if (conversation) {
       setMessages(conversation.messages || []);
+      setRoutingStrategy(conversation.routingStrategy);
+      setResponseSchema(conversation.responseSchema);
+      setReasoningEffort(conversation.reasoningEffort);
+      setHistorySummary(conversation.historySummary);
+      setFirstMessageInContext(conversation.firstMessageInContext || 0);
     } else {
       setMessages([]);
+      setRoutingStrategy(undefined);
+      setResponseSchema(undefined);
+      setReasoningEffort(undefined);
+      setHistorySummary(undefined);
+      setFirstMessageInContext(0);
     }
   }, [conversation]);
 
   useEffect(() => {
-    // Listen for streaming events
-    const handleStreamChunk = (event: CustomEvent) => {
-      const { requestId, chunk } = event.detail;
-      if (requestId === activeRequestId) {
-        setStreamingMessage(prev => prev + chunk.delta);
-      }
-    };
+    // Saving a response updates the conversation too, so only clear the
+    // context readout when switching to another one
+    setContextWindow(null);
+  }, [conversation?.id]);
 
-    const handleStreamEnd = (event: CustomEvent) => {
-      const { requestId } = event.detail;
-      if (requestId === activeRequestId) {
-        finalizeStreamingMessage();
-      }
-    };
+  useEffect(() => {
+    if (incomingImage) {
+      setAttachments(prev => [...prev, incomingImage]);
+      onIncomingImageAttached?.();
+    }
+  }, [incomingImage]);
 
-    document.addEventListener('mai-stream-chunk', handleStreamChunk as EventListener);
-    document.addEventListener('mai-stream-end', handleStreamEnd as EventListener);
+  useEffect(() => {
+    if (summarizePageRequested && !isLoading) {
+      onSummarizePageStarted?.();
+      handleSummarizePage();
+    }
+  }, [summarizePageRequested]);
 
-    return () => {
-      document.removeEventListener('mai-stream-chunk', handleStreamChunk as EventListener);
-      document.removeEventListener('mai-stream-end', handleStreamEnd as EventListener);
-    };
-  }, [activeRequestId]);
+  useEffect(() => {
+    // Stop streaming if the chat goes away mid-response
+    return () => streamRef.current?.cancel();
+  }, []);
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, streamingMessage]);
+  }, [messages, streamingMessage, streamingReasoning]);
+
+  useEffect(() => {
+    // Switching away from the provider the router picked counts against it
+    const previous = previousProviderRef.current;
+    previousProviderRef.current = provider;
+    if (previous === provider || provider === AUTO_PROVIDER) return;
+
+    const last = messages[messages.length - 1];
+    if (last?.role === 'assistant' && last.autoRouted && last.taskType && last.provider && last.provider !== provider) {
+      sendRoutingFeedback(last.taskType, last.provider, 'manual_switch');
+    }
+  }, [provider]);
 
   useEffect(() => {
     // Update token count when input changes
@@ -95,21 +167,124 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading) return;
 
     const userMessage: AIMessage = {
       role: 'user',
       content: input.trim(),
       timestamp: Date.now(),
+      ...(attachments.length > 0 ? { images: attachments } : {}),
+    };
+
+    const newMessages = [...messages, userMessage];
+    setMessages(newMessages);
+    setInput('');
+    setAttachments([]);
+    await requestCompletion(newMessages);
+  };
+
+  // Screenshot the page, or a region the user drags out, for the next message
+  const handleCapture = async (region: boolean) => {
+    setIsCapturing(true);
+    setError(null);
+
+    try {
+      const image = region ? await Screenshot.captureRegion() : await Screenshot.capture();
+      if (image) {
+        setAttachments(prev => [...prev, image]);
+      }
+    } catch (err) {
+      setError(`Failed to take screenshot: ${(err as Error).message}`);
+    } finally {
+      setIsCapturing(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  // Long pages are summarized section by section in the background, so
+  // nothing is cut off
+  const handleSummarizePage = () => {
+    if (isLoading) return;
+
+    const sections = DOMParser.extractMainSections();
+    if (sections.length === 0) {
+      setError('This page has no text to summarize');
+      return;
+    }
+
+    const instructions = input.trim();
+    const userMessage: AIMessage = {
+      role: 'user',
+      content: instructions ? `Summarize this page: ${instructions}` : 'Summarize this page',
+      timestamp: Date.now(),
     };
 
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
     setInput('');
+    startResponse();
+
+    streamRef.current = streamPageSummary({
+      provider,
+      url: window.location.href,
+      title: document.title,
+      sections,
+      instructions: instructions || undefined,
+    }, createStreamHandlers(newMessages));
+  };
+
+  const startResponse = () => {
     setIsLoading(true);
     setIsStreaming(true);
     setStreamingMessage('');
+    setStreamingReasoning('');
+    setQueuePosition(null);
+    setSummaryProgress(null);
     setError(null);
+  };
+
+  const createStreamHandlers = (newMessages: AIMessage[]): StreamHandlers => {
+    let content = '';
+    let reasoning = '';
+
+    return {
+      onQueued: setQueuePosition,
+      onProgress: setSummaryProgress,
+      onChunk: (chunk) => {
+        setQueuePosition(null);
+        if (chunk.kind === 'reasoning') {
+          reasoning += chunk.delta;
+          setStreamingReasoning(reasoning);
+        } else {
+          content += chunk.delta;
+          setStreamingMessage(content);
+        }
+      },
+      onEnd: (response) => {
+        streamRef.current = null;
+        // The response has the whole answer; chunks may have missed parts of it
+        finalizeStreamingMessage(newMessages, response.content || content, response, reasoning || response.reasoning);
+      },
+      onError: (message, errorCode) => {
+        streamRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+        setStreamingMessage('');
+        setStreamingReasoning('');
+        setQueuePosition(null);
+        setSummaryProgress(null);
+
+        if (errorCode === 'vault_locked') {
+          setVaultLocked(true);
+        } else {
+          setError(message);
+        }
+      },
+    };
+  };
+
+  const requestCompletion = async (newMessages: AIMessage[], target: AIProvider = provider) => {
+    startResponse();
 
     try {
       // Get page context
@@ -117,29 +292,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       // Create request
       const request: AIRequest = {
-        provider,
-        model: getDefaultModel(provider),
+        provider: target,
+        model: getDefaultModel(target),
         messages: newMessages,
         temperature: 0.7,
         maxTokens: 4000,
         stream: true,
         context,
+        priority: 'interactive',
+        routingStrategy,
+        responseSchema,
+        reasoning: reasoningEffort ? { effort: reasoningEffort } : undefined,
+        // Dropped if a retry or regenerate removed messages it covers
+        historySummary: historySummary && historySummary.messageCount < newMessages.length ? historySummary : undefined,
       };
 
-      // Generate request ID
-      const requestId = `req-${Date.now()}`;
-      setActiveRequestId(requestId);
-
-      // Send to background
-      const response = await chrome.runtime.sendMessage({
-        type: 'SEND_TO_AI',
-        payload: { request, requestId },
-      });
-
-      if (response.error) {
-        throw new Error(response.error);
-      }
-
+      // Stream through the background worker
+      streamRef.current = streamAIRequest(request, createStreamHandlers(newMessages));
     } catch (err) {
       setError(err.message || 'Failed to send message');
       setIsLoading(false);
@@ -147,56 +316,150 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
-  const finalizeStreamingMessage = () => {
-    if (streamingMessage) {
+  const finalizeStreamingMessage = (
+    history: AIMessage[],
+    content: string,
+    response?: AIResponse,
+    reasoning?: string
+  ) => {
+    if (content) {
+      // Another provider may have answered if the selected one failed
       const assistantMessage: AIMessage = {
         role: 'assistant',
-        content: streamingMessage,
+        content,
         timestamp: Date.now(),
-        provider,
-        model: getDefaultModel(provider),
+        provider: response?.provider || provider,
+        model: response?.model || getDefaultModel(provider),
+        failover: response?.failover,
+        taskType: response?.taskType,
+        autoRouted: response?.autoRouted,
+        data: response?.data,
+        schemaErrors: response?.schemaErrors,
+        reasoning: reasoning || undefined,
+        tokens: response?.usage ? {
+          input: response.usage.inputTokens,
+          output: response.usage.outputTokens,
+          reasoning: response.usage.reasoningTokens,
+        } : undefined,
+        cost: response?.cost,
       };
 
-      const updatedMessages = [...messages, assistantMessage];
+      const updatedMessages = [...history, assistantMessage];
       setMessages(updatedMessages);
       setStreamingMessage('');
 
+      // Stopped responses don't report what was sent, so keep the last known
+      const fitted = response?.contextWindow;
+      const summary = fitted ? fitted.summary : historySummary;
+      const firstInContext = fitted ? fitted.firstMessageInContext : firstMessageInContext;
+      setHistorySummary(summary);
+      setFirstMessageInContext(firstInContext);
+      if (fitted) setContextWindow(fitted);
+
       // Update conversation
       if (conversation) {
         onUpdateConversation({
           ...conversation,
           messages: updatedMessages,
           updatedAt: Date.now(),
+          historySummary: summary,
+          firstMessageInContext: firstInContext,
         });
       } else {
         // Create new conversation
         const newConversation: Conversation = {
           id: `conv-${Date.now()}`,
-          title: messages[0]?.content.substring(0, 50) || 'New Conversation',
+          title: history[0]?.content.substring(0, 50) || 'New Conversation',
           provider,
           messages: updatedMessages,
           createdAt: Date.now(),
           updatedAt: Date.now(),
+          routingStrategy,
+          responseSchema,
+          reasoningEffort,
+          historySummary: summary,
+          firstMessageInContext: firstInContext,
         };
         onUpdateConversation(newConversation);
       }
 
       // Update token count
-      const outputTokens = TokenCounter.estimate(streamingMessage, provider);
+      const outputTokens = TokenCounter.estimate(content, provider);
       setTokenCount(prev => ({ input: prev.input, output: outputTokens }));
     }
 
+    setStreamingReasoning('');
     setIsLoading(false);
     setIsStreaming(false);
-    setActiveRequestId(null);
+    setQueuePosition(null);
+    setSummaryProgress(null);
   };
 
   const handleStop = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    // Cancelling closes the port, which aborts the upstream request
+    streamRef.current?.cancel();
+    streamRef.current = null;
+    finalizeStreamingMessage(messages, streamingMessage, undefined, streamingReasoning);
+  };
+
+  const sendRoutingFeedback = (taskType: TaskType, target: AIProvider, signal: PreferenceSignal) => {
+    chrome.runtime
+      .sendMessage({ type: 'ROUTING_FEEDBACK', payload: { taskType, provider: target, signal } })
+      .catch(() => {});
+  };
+
+  const updateMessages = (updatedMessages: AIMessage[]) => {
+    setMessages(updatedMessages);
+    if (conversation) {
+      onUpdateConversation({ ...conversation, messages: updatedMessages, updatedAt: Date.now() });
     }
-    finalizeStreamingMessage();
+  };
+
+  const handleStrategyChange = (strategy: RoutingStrategy | undefined) => {
+    setRoutingStrategy(strategy);
+    if (conversation) {
+      onUpdateConversation({ ...conversation, routingStrategy: strategy, updatedAt: Date.now() });
+    }
+  };
+
+  const handleSchemaChange = (schema: JSONSchema | undefined) => {
+    setResponseSchema(schema);
+    if (conversation) {
+      onUpdateConversation({ ...conversation, responseSchema: schema, updatedAt: Date.now() });
+    }
+  };
+
+  const handleReasoningChange = (effort: ReasoningEffort | undefined) => {
+    setReasoningEffort(effort);
+    if (conversation) {
+      onUpdateConversation({ ...conversation, reasoningEffort: effort, updatedAt: Date.now() });
+    }
+  };
+
+  const handleFeedback = (index: number, feedback: 'up' | 'down') => {
+    const message = messages[index];
+    if (!message.taskType || !message.provider || message.feedback === feedback) return;
+
+    sendRoutingFeedback(message.taskType, message.provider, feedback === 'up' ? 'thumbs_up' : 'thumbs_down');
+    updateMessages(messages.map((m, i) => (i === index ? { ...m, feedback } : m)));
+  };
+
+  const handleRegenerate = (target: AIProvider) => {
+    const last = messages[messages.length - 1];
+    if (last?.role !== 'assistant') return;
+
+    if (last.taskType && last.provider) {
+      sendRoutingFeedback(last.taskType, last.provider, 'regenerate');
+    }
+
+    const history = messages.slice(0, -1);
+    updateMessages(history);
+    requestCompletion(history, target);
+  };
+
+  const handleVaultUnlocked = () => {
+    setVaultLocked(false);
+    requestCompletion(messages);
   };
 
   const handleRetry = async () => {
@@ -204,6 +467,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
       if (lastUserMessage) {
         setInput(lastUserMessage.content);
+        setAttachments(lastUserMessage.images || []);
         // Remove last exchange
         const newMessages = messages.slice(0, -2);
         setMessages(newMessages);
@@ -238,10 +502,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const handleClear = () => {
     setMessages([]);
     setInput('');
+    setAttachments([]);
     setError(null);
+    setHistorySummary(undefined);
+    setFirstMessageInContext(0);
+    setContextWindow(null);
     onNewConversation();
   };
 
+  // Whether a message was left out of the last request, in full
+  const getContextStatus = (index: number): OutOfContext | undefined => {
+    if (historySummary && index < historySummary.messageCount) return 'summarized';
+    if (index < firstMessageInContext) return 'dropped';
+    return undefined;
+  };
+
   const getPageContext = async (): Promise<any> => {
     try {
       const response = await chrome.runtime.sendMessage({ type: 'GET_CONTEXT' });
@@ -253,13 +528,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   const getDefaultModel = (provider: AIProvider): string => {
-    const models = {
-      claude: 'claude-3-sonnet-20240229',
-      chatgpt: 'gpt-4-turbo-preview',
-      gemini: 'gemini-pro',
-      grok: 'grok-beta',
-    };
-    return models[provider];
+    return providerRegistry.get(provider)?.defaultModel || '';
   };
 
   const showToast = (message: string) => {
@@ -287,7 +556,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </div>
             <h3 className="text-lg font-medium mb-2">Start a conversation</h3>
             <p className="text-sm">
-              Ask {provider} anything or select text on the page to get started
+              Ask {provider === AUTO_PROVIDER ? 'any AI' : provider} anything or select text on the page to get started
             </p>
           </div>
         )}
@@ -297,15 +566,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             key={index}
             message={message}
             onCopy={handleCopy}
+            onFeedback={(feedback) => handleFeedback(index, feedback)}
+            onRegenerate={index === messages.length - 1 && !isLoading ? handleRegenerate : undefined}
             provider={provider}
+            outOfContext={getContextStatus(index)}
           />
         ))}
 
-        {isStreaming && streamingMessage && (
+        {isStreaming && (streamingMessage || streamingReasoning) && (
           <MessageBubble
             message={{
               role: 'assistant',
               content: streamingMessage,
+              reasoning: streamingReasoning || undefined,
               timestamp: Date.now(),
               provider,
             }}
@@ -315,13 +588,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           />
         )}
 
-        {isLoading && !streamingMessage && (
+        {isLoading && !streamingMessage && !streamingReasoning && (
           <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
             <Loader className="w-4 h-4 animate-spin" />
-            <span className="text-sm">Thinking...</span>
+            <span className="text-sm">
+              {summaryProgress
+                ? formatSummaryProgress(summaryProgress)
+                : queuePosition
+                  ? `Waiting for a free slot (position ${queuePosition})...`
+                  : 'Thinking...'}
+            </span>
           </div>
         )}
 
+        {vaultLocked && (
+          <VaultUnlock onUnlocked={handleVaultUnlocked} />
+        )}
+
         {error && (
           <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg">
             <AlertCircle className="w-5 h-5 mt-0.5" />
@@ -345,6 +628,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               {estimatedCost > 0 && (
                 <span>Est. cost: {CostCalculator.format(estimatedCost)}</span>
               )}
+              {contextWindow && (
+                <span title={formatContextWindow(contextWindow)}>
+                  Context: {Math.round(getContextUsed(contextWindow) / contextWindow.limit * 100)}%
+                </span>
+              )}
             </div>
             <div className="flex items-center space-x-2">
               {messages.length > 0 && (
@@ -369,6 +657,84 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
+        {/* Routing strategy for this conversation */}
+        {provider === AUTO_PROVIDER && (
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-2">
+            <span>Pick the AI by</span>
+            <StrategySelector
+              value={routingStrategy}
+              onChange={handleStrategyChange}
+              allowDefault
+            />
+          </div>
+        )}
+
+        {/* Structured output for this conversation, and page screenshots */}
+        <div className="flex items-start justify-between text-xs text-gray-500 dark:text-gray-400 mb-2">
+          <SchemaEditor schema={responseSchema} onChange={handleSchemaChange} />
+          <div className="flex items-center space-x-1">
+            <label className="flex items-center space-x-1 px-1" title="How hard a reasoning model thinks before answering">
+              <Brain className="w-3 h-3" />
+              <select
+                value={reasoningEffort || ''}
+                onChange={(e) => handleReasoningChange((e.target.value || undefined) as ReasoningEffort | undefined)}
+                className="bg-transparent"
+              >
+                <option value="">No reasoning</option>
+                <option value="low">Low reasoning</option>
+                <option value="medium">Medium reasoning</option>
+                <option value="high">High reasoning</option>
+              </select>
+            </label>
+            <button
+              onClick={handleSummarizePage}
+              disabled={isLoading}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              title="Summarize the whole page, with what you've typed as extra instructions"
+            >
+              <FileText className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => handleCapture(false)}
+              disabled={isCapturing || isLoading}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              title="Attach a screenshot of the visible page"
+            >
+              <Camera className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => handleCapture(true)}
+              disabled={isCapturing || isLoading}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              title="Attach a screenshot of a region of the page"
+            >
+              <Crop className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+
+        {/* Screenshots to send with the next message */}
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {attachments.map((image, index) => (
+              <div key={index} className="relative">
+                <img
+                  src={getImageSrc(image)}
+                  alt="Attached screenshot"
+                  className="h-16 rounded border border-gray-200 dark:border-gray-700"
+                />
+                <button
+                  onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                  className="absolute -top-1 -right-1 p-0.5 bg-gray-700 text-white rounded-full"
+                  title="Remove screenshot"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Input Field */}
         <div className="flex space-x-2">
           <textarea
@@ -376,7 +742,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={`Ask ${provider}...`}
+            placeholder={provider === AUTO_PROVIDER ? 'Ask anything...' : `Ask ${provider}...`}
             className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
             rows={2}
             disabled={isLoading}
@@ -393,7 +759,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             ) : (
               <button
                 onClick={handleSend}
-                disabled={!input.trim() || isLoading}
+                disabled={(!input.trim() && attachments.length === 0) || isLoading}
                 className="px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 title="Send message"
               >
@@ -417,23 +783,34 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 };
 
 // Message Bubble Component
+type OutOfContext = 'summarized' | 'dropped';
+
 interface MessageBubbleProps {
   message: AIMessage;
   isStreaming?: boolean;
   onCopy: (content: string) => void;
+  onFeedback?: (feedback: 'up' | 'down') => void;
+  onRegenerate?: (provider: AIProvider) => void;
   provider: AIProvider;
+  outOfContext?: OutOfContext;
 }
 
 const MessageBubble: React.FC<MessageBubbleProps> = ({
   message,
   isStreaming = false,
   onCopy,
+  onFeedback,
+  onRegenerate,
   provider,
+  outOfContext,
 }) => {
   const isUser = message.role === 'user';
+  const { providers } = useExtensionStore();
+  // Feedback trains the router, so it needs to know what the task was
+  const canRate = !isStreaming && !!message.taskType && !!onFeedback;
 
   return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} ${outOfContext ? 'opacity-50' : ''}`}>
       <div
         className={`max-w-[80%] rounded-lg p-3 ${
           isUser
@@ -445,8 +822,49 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
           <div className="flex items-center justify-between mb-2">
             <span className="text-xs font-medium opacity-70">
               {message.provider || provider}
+              {message.failover && (
+                <span
+                  className="ml-1 font-normal"
+                  title={message.failover.attempts.map(a => `${a.provider}: ${a.error}`).join('\n')}
+                >
+                  (instead of {message.failover.requestedProvider}, {formatFailoverReason(message.failover.reason)})
+                </span>
+              )}
             </span>
             <div className="flex items-center space-x-1">
+              {canRate && (
+                <>
+                  <button
+                    onClick={() => onFeedback!('up')}
+                    className={`p-1 hover:bg-white/10 rounded ${message.feedback === 'up' ? 'text-green-500' : ''}`}
+                    title="Good answer"
+                  >
+                    <ThumbsUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onFeedback!('down')}
+                    className={`p-1 hover:bg-white/10 rounded ${message.feedback === 'down' ? 'text-red-500' : ''}`}
+                    title="Bad answer"
+                  >
+                    <ThumbsDown className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+              {!isStreaming && onRegenerate && (
+                <select
+                  value=""
+                  onChange={(e) => onRegenerate(e.target.value)}
+                  className="text-xs bg-transparent opacity-70 hover:opacity-100"
+                  title="Regenerate with another model"
+                >
+                  <option value="">Regenerate with…</option>
+                  {providers
+                    .filter(p => p.id !== message.provider)
+                    .map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+              )}
               {!isStreaming && (
                 <button
                   onClick={() => onCopy(message.content)}
@@ -462,15 +880,127 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             </div>
           </div>
         )}
-        <div className="prose prose-sm dark:prose-invert max-w-none">
-          <ReactMarkdown>{message.content}</ReactMarkdown>
-        </div>
+        {message.reasoning && (
+          <ReasoningPanel
+            reasoning={message.reasoning}
+            tokens={message.tokens?.reasoning}
+            isStreaming={isStreaming && !message.content}
+          />
+        )}
+        {message.images && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {message.images.map((image, index) => (
+              <img
+                key={index}
+                src={getImageSrc(image)}
+                alt="Screenshot"
+                className="max-h-40 rounded"
+              />
+            ))}
+          </div>
+        )}
+        {message.data !== undefined ? (
+          <StructuredDataView data={message.data} />
+        ) : (
+          <div className="prose prose-sm dark:prose-invert max-w-none">
+            <ReactMarkdown>{message.content}</ReactMarkdown>
+          </div>
+        )}
+        {message.schemaErrors && (
+          <div className="mt-2 text-xs text-amber-600 dark:text-amber-400" title={message.schemaErrors.join('\n')}>
+            The answer doesn't fully match the schema
+          </div>
+        )}
         {message.timestamp && (
           <div className="text-xs opacity-70 mt-2">
             {new Date(message.timestamp).toLocaleTimeString()}
+            {outOfContext && (
+              <span
+                className="ml-2"
+                title={outOfContext === 'summarized'
+                  ? 'Only a summary of this message is sent to the AI'
+                  : 'This message is no longer sent to the AI'}
+              >
+                {outOfContext === 'summarized' ? '· Summarized' : '· Out of context'}
+              </span>
+            )}
           </div>
         )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// What the model thought before answering, collapsed once it starts to answer
+const ReasoningPanel: React.FC<{ reasoning: string; tokens?: number; isStreaming: boolean }> = ({
+  reasoning,
+  tokens,
+  isStreaming,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mb-2 text-xs border-l-2 border-gray-300 dark:border-gray-600 pl-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 opacity-70 hover:opacity-100"
+      >
+        <Brain className="w-3 h-3" />
+        <span>
+          {isStreaming ? 'Reasoning…' : 'Reasoning'}
+          {tokens ? ` (${tokens.toLocaleString()} tokens)` : ''}
+        </span>
+      </button>
+      {(isOpen || isStreaming) && (
+        <div className="mt-1 whitespace-pre-wrap opacity-80 max-h-60 overflow-y-auto">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const getContextUsed = (info: ContextWindowInfo): number => {
+  return info.system + info.context + info.history + info.output;
+};
+
+const formatContextWindow = (info: ContextWindowInfo): string => {
+  return [
+    `System prompt and summary: ${info.system.toLocaleString()}`,
+    `Page context: ${info.context.toLocaleString()}`,
+    `Messages: ${info.history.toLocaleString()}`,
+    `Reserved for the answer: ${info.output.toLocaleString()}`,
+    `Model limit: ${info.limit.toLocaleString()} tokens`,
+  ].join('\n');
+};
+
+const formatSummaryProgress = (progress: PageSummaryProgress): string => {
+  switch (progress.stage) {
+    case 'map':
+      return `Reading the page (${progress.completed} of ${progress.total} parts)...`;
+    case 'reduce':
+      return `Combining notes (${progress.completed} of ${progress.total})...`;
+    default:
+      return 'Writing the summary...';
+  }
+};
+
+const getImageSrc = (image: ImageContent): string => {
+  return image.data ? `data:${image.mediaType};base64,${image.data}` : image.url || '';
+};
+
+const formatFailoverReason = (reason: AIErrorCode): string => {
+  switch (reason) {
+    case 'rate_limited':
+      return 'rate limited';
+    case 'overloaded':
+    case 'server_error':
+      return 'unavailable';
+    case 'timeout':
+      return 'timed out';
+    case 'network_error':
+      return 'unreachable';
+    default:
+      return 'failed';
+  }
+};
@@ -0,0 +1,440 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send, Loader, StopCircle, Trophy, AlertCircle, Scale } from 'lucide-react';
+import { AIProvider, AIMessage, AIRequest, AIResponse, JudgeVerdict, PageContext } from '@/types/ai';
+import { TokenCounter } from '@/utils/tokenCounter';
+import { CostCalculator } from '@/utils/costCalculator';
+import providerRegistry from '@/services/providerRegistry';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { streamAIRequest, StreamHandle } from '@/utils/streamClient';
+import ReactMarkdown from 'react-markdown';
+import { VaultUnlock } from '../VaultUnlock';
+
+interface ComparisonViewProps {
+  initialPrompt?: string;
+  initialContext?: Partial<PageContext>;
+  onContinue: (provider: AIProvider, messages: AIMessage[], context?: PageContext) => void;
+}
+
+interface ColumnState {
+  provider: AIProvider;
+  model: string;
+  content: string;
+  status: 'waiting' | 'streaming' | 'done' | 'error';
+  error?: string;
+  startedAt: number;
+  latency?: number;
+  tokens?: number;
+  cost?: number;
+  response?: AIResponse;
+}
+
+/**
+ * Sends one prompt to every enabled provider at once and streams the
+ * answers side by side
+ */
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ initialPrompt, initialContext, onContinue }) => {
+  const { settings, providers } = useExtensionStore();
+  const [input, setInput] = useState(initialPrompt || '');
+  const [prompt, setPrompt] = useState<AIMessage | null>(null);
+  const [context, setContext] = useState<PageContext | undefined>();
+  const [columns, setColumns] = useState<ColumnState[]>([]);
+  const [vaultLocked, setVaultLocked] = useState(false);
+  const [judgeProvider, setJudgeProvider] = useState<AIProvider | undefined>();
+  const [verdict, setVerdict] = useState<JudgeVerdict | null>(null);
+  const [judging, setJudging] = useState(false);
+  const [judgeError, setJudgeError] = useState<string | null>(null);
+
+  const streamsRef = useRef<StreamHandle[]>([]);
+
+  useEffect(() => {
+    // Stop every stream if the view goes away mid-comparison
+    return () => streamsRef.current.forEach(stream => stream.cancel());
+  }, []);
+
+  useEffect(() => {
+    if (initialPrompt) setInput(initialPrompt);
+  }, [initialPrompt]);
+
+  const isRunning = columns.some(c => c.status === 'waiting' || c.status === 'streaming');
+  const answered = columns.filter(c => c.status === 'done' && c.content);
+
+  const updateColumn = (provider: AIProvider, updates: Partial<ColumnState>) => {
+    setColumns(prev => prev.map(c => (c.provider === provider ? { ...c, ...updates } : c)));
+  };
+
+  const getPageContext = async (): Promise<PageContext | undefined> => {
+    try {
+      const context = await chrome.runtime.sendMessage({ type: 'GET_CONTEXT' });
+      return { ...context, ...initialContext };
+    } catch (err) {
+      console.error('Failed to get page context:', err);
+      return undefined;
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!input.trim() || isRunning || !settings) return;
+
+    const userMessage: AIMessage = { role: 'user', content: input.trim(), timestamp: Date.now() };
+    const enabled = providers.filter(p => settings.providers[p.id]?.enabled);
+    const pageContext = await getPageContext();
+
+    setPrompt(userMessage);
+    setContext(pageContext);
+    setVaultLocked(false);
+    setVerdict(null);
+    setJudgeError(null);
+    setColumns(enabled.map(p => ({
+      provider: p.id,
+      model: settings.providers[p.id]?.model || p.defaultModel,
+      content: '',
+      status: 'waiting',
+      startedAt: Date.now(),
+    })));
+
+    streamsRef.current = enabled.map(p => {
+      const model = settings.providers[p.id]?.model || p.defaultModel;
+      const startedAt = Date.now();
+
+      const request: AIRequest = {
+        provider: p.id,
+        model,
+        messages: [userMessage],
+        temperature: 0.7,
+        maxTokens: 4000,
+        stream: true,
+        context: pageContext,
+        priority: 'interactive',
+        allowFailover: false, // Each column must be answered by its own provider
+      };
+
+      let content = '';
+      return streamAIRequest(request, {
+        onChunk: (chunk) => {
+          if (chunk.kind === 'reasoning') return; // Columns compare answers only
+          content += chunk.delta;
+          updateColumn(p.id, { content, status: 'streaming' });
+        },
+        onEnd: (response) => {
+          const finalContent = content || response.content;
+          if (response.error && !finalContent) {
+            updateColumn(p.id, { status: 'error', error: response.error });
+            if (response.errorCode === 'vault_locked') setVaultLocked(true);
+            return;
+          }
+
+          const inputTokens = response.usage?.inputTokens ?? TokenCounter.estimate(userMessage.content, model);
+          const outputTokens = response.usage?.outputTokens ?? TokenCounter.estimate(finalContent, model);
+
+          updateColumn(p.id, {
+            content: finalContent,
+            status: 'done',
+            latency: response.responseTime ?? Date.now() - startedAt,
+            tokens: inputTokens + outputTokens,
+            cost: response.cost ?? CostCalculator.calculate(response.model || model, inputTokens, outputTokens),
+            response,
+          });
+        },
+        onError: (message, errorCode) => {
+          updateColumn(p.id, { status: 'error', error: message });
+          if (errorCode === 'vault_locked') setVaultLocked(true);
+        },
+      });
+    });
+  };
+
+  const handleStop = () => {
+    streamsRef.current.forEach(stream => stream.cancel());
+    streamsRef.current = [];
+    setColumns(prev => prev.map(c =>
+      c.status === 'waiting' || c.status === 'streaming'
+        ? { ...c, status: c.content ? 'done' : 'error', error: c.content ? undefined : 'Stopped' }
+        : c
+    ));
+  };
+
+  const handlePickWinner = (column: ColumnState) => {
+    if (!prompt) return;
+
+    // Choosing one answer over the others is a strong routing signal
+    const taskType = column.response?.taskType;
+    if (taskType) {
+      chrome.runtime
+        .sendMessage({ type: 'ROUTING_FEEDBACK', payload: { taskType, provider: column.provider, signal: 'thumbs_up' } })
+        .catch(() => {});
+    }
+
+    onContinue(column.provider, [
+      prompt,
+      {
+        role: 'assistant',
+        content: column.content,
+        timestamp: Date.now(),
+        provider: column.provider,
+        model: column.response?.model || column.model,
+        taskType,
+      },
+    ], context);
+  };
+
+  const handleJudge = async () => {
+    if (!prompt || !settings || answered.length < 2) return;
+
+    const provider = judgeProvider || settings.routing.judge.provider;
+    setJudging(true);
+    setJudgeError(null);
+    setVerdict(null);
+
+    try {
+      const result = await chrome.runtime.sendMessage({
+        type: 'JUDGE_ANSWERS',
+        payload: {
+          prompt: prompt.content,
+          candidates: answered.map(c => ({
+            provider: c.provider,
+            model: c.response?.model || c.model,
+            content: c.content,
+          })),
+          taskType: answered.find(c => c.response?.taskType)?.response?.taskType,
+          judge: provider === settings.routing.judge.provider ? undefined : { provider },
+        },
+      });
+
+      if (result?.error) {
+        setJudgeError(result.error);
+      } else {
+        setVerdict(result.verdict);
+      }
+    } catch (err) {
+      setJudgeError(err instanceof Error ? err.message : 'Failed to judge answers');
+    } finally {
+      setJudging(false);
+    }
+  };
+
+  const handleContinueWithMerged = () => {
+    if (!prompt || !verdict) return;
+
+    onContinue(verdict.judge.provider, [
+      prompt,
+      {
+        role: 'assistant',
+        content: verdict.mergedAnswer,
+        timestamp: Date.now(),
+        provider: verdict.judge.provider,
+        model: verdict.judge.model,
+        taskType: verdict.taskType,
+      },
+    ], context);
+  };
+
+  const handleVaultUnlocked = () => {
+    setVaultLocked(false);
+    handleCompare();
+  };
+
+  const getProviderName = (id: AIProvider) => providerRegistry.get(id)?.name || id;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-x-auto overflow-y-hidden p-4">
+        {columns.length === 0 ? (
+          <div className="text-center text-gray-500 dark:text-gray-400 mt-8 text-sm">
+            Ask once and see how every enabled AI answers, side by side.
+          </div>
+        ) : (
+          <div className="flex h-full space-x-3">
+            {columns.map(column => (
+              <div
+                key={column.provider}
+                className="flex flex-col w-72 flex-shrink-0 border border-gray-200 dark:border-gray-700 rounded-lg"
+              >
+                <div className="flex items-center justify-between p-2 border-b border-gray-200 dark:border-gray-700">
+                  <div>
+                    <div className="text-sm font-medium">{getProviderName(column.provider)}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{column.response?.model || column.model}</div>
+                  </div>
+                  {(column.status === 'waiting' || column.status === 'streaming') && (
+                    <Loader className="w-4 h-4 animate-spin text-gray-400" />
+                  )}
+                  {column.status === 'done' && !isRunning && (
+                    <button
+                      onClick={() => handlePickWinner(column)}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
+                      title="Continue the conversation with this answer"
+                    >
+                      <Trophy className="w-3 h-3" />
+                      <span>Pick</span>
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-2 text-sm">
+                  {column.status === 'error' ? (
+                    <div className="flex items-start space-x-2 text-red-600 dark:text-red-400">
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{column.error}</span>
+                    </div>
+                  ) : (
+                    <div className="prose prose-sm dark:prose-invert max-w-none">
+                      <ReactMarkdown>{column.content}</ReactMarkdown>
+                    </div>
+                  )}
+                </div>
+
+                {column.status === 'done' && (
+                  <div className="flex items-center justify-between p-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+                    <span>{column.latency !== undefined ? `${(column.latency / 1000).toFixed(1)}s` : '–'}</span>
+                    <span>{column.tokens ?? '–'} tokens</span>
+                    <span>{column.cost !== undefined ? CostCalculator.format(column.cost) : '–'}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(verdict || judgeError) && (
+        <div className="max-h-72 overflow-y-auto mx-4 mb-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+          {judgeError ? (
+            <div className="flex items-start space-x-2 text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{judgeError}</span>
+            </div>
+          ) : verdict && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">
+                  Verdict from {getProviderName(verdict.judge.provider)}
+                  <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">{verdict.judge.model}</span>
+                </div>
+                {verdict.mergedAnswer && (
+                  <button
+                    onClick={handleContinueWithMerged}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
+                    title="Continue the conversation with the merged answer"
+                  >
+                    <Trophy className="w-3 h-3" />
+                    <span>Continue with merged answer</span>
+                  </button>
+                )}
+              </div>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="pr-2 font-medium">#</th>
+                    <th className="pr-2 font-medium">Provider</th>
+                    {Object.keys(verdict.rankings[0]?.scores || {}).map(criterion => (
+                      <th key={criterion} className="pr-2 font-medium capitalize">{criterion}</th>
+                    ))}
+                    <th className="font-medium">Overall</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {verdict.rankings.map((ranking, index) => (
+                    <tr key={ranking.provider} className="align-top" title={ranking.comment}>
+                      <td className="pr-2">{index + 1}</td>
+                      <td className="pr-2">{getProviderName(ranking.provider)}</td>
+                      {Object.values(ranking.scores).map((score, i) => (
+                        <td key={i} className="pr-2">{score}</td>
+                      ))}
+                      <td className="font-medium">{ranking.overall}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {verdict.disagreements.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Where they disagree</div>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {verdict.disagreements.map((point, index) => (
+                      <li key={index}>{point}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {verdict.mergedAnswer && (
+                <div>
+                  <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Merged answer</div>
+                  <div className="prose prose-sm dark:prose-invert max-w-none">
+                    <ReactMarkdown>{verdict.mergedAnswer}</ReactMarkdown>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {vaultLocked && (
+        <div className="px-4">
+          <VaultUnlock onUnlocked={handleVaultUnlocked} />
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 dark:border-gray-700 p-4">
+        {answered.length >= 2 && !isRunning && settings && (
+          <div className="flex items-center space-x-2 mb-2">
+            <select
+              value={judgeProvider || settings.routing.judge.provider}
+              onChange={(e) => setJudgeProvider(e.target.value as AIProvider)}
+              className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+              title="Model that judges the answers"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleJudge}
+              disabled={judging}
+              className="flex items-center space-x-1 px-3 py-1 text-sm bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              title="Score the answers, find where they disagree and merge the best parts"
+            >
+              {judging ? <Loader className="w-4 h-4 animate-spin" /> : <Scale className="w-4 h-4" />}
+              <span>{judging ? 'Judging...' : 'Judge answers'}</span>
+            </button>
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleCompare();
+              }
+            }}
+            placeholder="Ask every AI the same thing..."
+            className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            rows={2}
+            disabled={isRunning}
+          />
+          {isRunning ? (
+            <button
+              onClick={handleStop}
+              className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              title="Stop all"
+            >
+              <StopCircle className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleCompare}
+              disabled={!input.trim()}
+              className="px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Compare"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -14,6 +14,7 @@ import {
 import { Conversation } from '@/types/extension';
 import { AIProvider } from '@/types/ai';
 import { CostCalculator } from '@/utils/costCalculator';
+import providerRegistry from '@/services/providerRegistry';
 
 interface ConversationHistoryProps {
   conversations: Conversation[];
@@ -137,13 +138,8 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   };
 
   const getProviderColor = (provider: AIProvider): string => {
-    const colors = {
-      claude: 'bg-amber-500',
-      chatgpt: 'bg-green-500',
-      gemini: 'bg-blue-500',
-      grok: 'bg-cyan-500',
-    };
-    return colors[provider] || 'bg-gray-500';
+    const color = providerRegistry.get(provider)?.color;
+    return color ? `bg-gradient-to-r ${color}` : 'bg-gray-500';
   };
 
   const calculateConversationStats = (conversation: Conversation) => {
@@ -1,59 +1,82 @@
-import React, { useState } from 'react';
-import { ChevronDown, Check, Sparkles, Zap, Globe, MessageCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, Check, Sparkles, Zap, Globe, MessageCircle, Server, Bot, Shuffle } from 'lucide-react';
 import { AIProvider } from '@/types/ai';
+import { RateLimitStatus } from '@/types/provider';
+import { getAvailability, getBlockedUntil } from '@/services/rateLimit';
+import { AUTO_PROVIDER } from '@/services/providerRegistry';
+import { useExtensionStore } from '@/stores/extensionStore';
 
 interface ProviderSelectorProps {
   selected: AIProvider;
   onChange: (provider: AIProvider) => void;
   disabled?: boolean;
+  allowAuto?: boolean; // Offer "Auto", which lets the router pick per message
 }
 
-interface ProviderInfo {
-  id: AIProvider;
-  name: string;
-  icon: React.ReactNode;
-  color: string;
-  description: string;
-}
+// Maps the icon names used by provider definitions to components
+const providerIcons: Record<string, React.ComponentType<{ className?: string }>> = {
+  'sparkles': Sparkles,
+  'message-circle': MessageCircle,
+  'globe': Globe,
+  'zap': Zap,
+  'server': Server,
+  'shuffle': Shuffle,
+};
+
+const autoOption = {
+  id: AUTO_PROVIDER,
+  name: 'Auto',
+  description: 'Picks the best AI for each message',
+  icon: 'shuffle',
+  color: 'from-gray-500 to-gray-700',
+};
+
+const ProviderIcon: React.FC<{ name: string }> = ({ name }) => {
+  const Icon = providerIcons[name] || Bot;
+  return <Icon className="w-4 h-4" />;
+};
+
+// Dot showing how much of its rate limit a provider has left, hidden until
+// the provider has reported its limits
+const RateLimitIndicator: React.FC<{ status?: RateLimitStatus }> = ({ status }) => {
+  if (!status?.updatedAt) return null;
 
-const providers: ProviderInfo[] = [
-  {
-    id: 'claude',
-    name: 'Claude',
-    icon: <Sparkles className="w-4 h-4" />,
-    color: 'from-amber-500 to-orange-600',
-    description: 'Best for creative writing & analysis',
-  },
-  {
-    id: 'chatgpt',
-    name: 'ChatGPT',
-    icon: <MessageCircle className="w-4 h-4" />,
-    color: 'from-green-500 to-emerald-600',
-    description: 'Excellent for code & technical tasks',
-  },
-  {
-    id: 'gemini',
-    name: 'Gemini',
-    icon: <Globe className="w-4 h-4" />,
-    color: 'from-blue-500 to-indigo-600',
-    description: 'Great for research & real-time info',
-  },
-  {
-    id: 'grok',
-    name: 'Grok',
-    icon: <Zap className="w-4 h-4" />,
-    color: 'from-cyan-500 to-blue-600',
-    description: 'Fast responses & social media',
-  },
-];
+  const blockedUntil = getBlockedUntil(status);
+  const availability = getAvailability(status);
+
+  let color = 'bg-green-500';
+  let title = 'Within rate limits';
+
+  if (blockedUntil > 0) {
+    color = 'bg-red-500';
+    title = `Rate limited until ${new Date(blockedUntil).toLocaleTimeString()}`;
+  } else if (availability < 0.2) {
+    color = 'bg-yellow-500';
+    title = `${Math.round(availability * 100)}% of rate limit left`;
+  }
+
+  return <span className={`inline-block w-2 h-2 rounded-full ${color}`} title={title} />;
+};
 
 export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
   selected,
   onChange,
   disabled = false,
+  allowAuto = false,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const selectedProvider = providers.find(p => p.id === selected) || providers[0];
+  const [rateLimits, setRateLimits] = useState<Record<AIProvider, RateLimitStatus>>({});
+  const { providers } = useExtensionStore();
+  const options = allowAuto ? [autoOption, ...providers] : providers;
+  const selectedProvider = options.find(p => p.id === selected) || options[0];
+
+  // Refresh on open so the menu reflects the latest responses
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: 'GET_RATE_LIMITS' })
+      .then(statuses => setRateLimits(statuses || {}))
+      .catch(() => {});
+  }, [isOpen]);
 
   const handleSelect = (provider: AIProvider) => {
     onChange(provider);
@@ -71,11 +94,12 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
       >
         <div className="flex items-center space-x-3">
           <div className={`p-2 bg-gradient-to-r ${selectedProvider.color} rounded-lg text-white`}>
-            {selectedProvider.icon}
+            <ProviderIcon name={selectedProvider.icon} />
           </div>
           <div className="text-left">
-            <div className="text-sm font-medium text-gray-900 dark:text-white">
-              {selectedProvider.name}
+            <div className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white">
+              <span>{selectedProvider.name}</span>
+              <RateLimitIndicator status={rateLimits[selectedProvider.id]} />
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400">
               {selectedProvider.description}
@@ -91,7 +115,7 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
 
       {isOpen && !disabled && (
         <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden">
-          {providers.map(provider => (
+          {options.map(provider => (
             <button
               key={provider.id}
               onClick={() => handleSelect(provider.id)}
@@ -99,11 +123,12 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
             >
               <div className="flex items-center space-x-3">
                 <div className={`p-2 bg-gradient-to-r ${provider.color} rounded-lg text-white`}>
-                  {provider.icon}
+                  <ProviderIcon name={provider.icon} />
                 </div>
                 <div className="text-left">
-                  <div className="text-sm font-medium text-gray-900 dark:text-white">
-                    {provider.name}
+                  <div className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white">
+                    <span>{provider.name}</span>
+                    <RateLimitIndicator status={rateLimits[provider.id]} />
                   </div>
                   <div className="text-xs text-gray-500 dark:text-gray-400">
                     {provider.description}
@@ -1,20 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Settings, History, BookOpen, MessageSquare, Minimize2, Maximize2 } from 'lucide-react';
+import { X, Settings, History, BookOpen, MessageSquare, Minimize2, Maximize2, Lock, Columns } from 'lucide-react';
 import { ProviderSelector } from '../ProviderSelector';
 import { ChatInterface } from '../Chat';
+import { ComparisonView } from '../Comparison';
 import { ConversationHistory } from '../ConversationHistory';
 import { PromptLibrary } from '../PromptLibrary';
-import { AIProvider, AIMessage } from '@/types/ai';
+import { AIProvider, AIMessage, ImageContent, PageContext } from '@/types/ai';
 import { Conversation } from '@/types/extension';
 import { useExtensionStore } from '@/stores/extensionStore';
 
-type TabType = 'chat' | 'history' | 'prompts' | 'settings';
+type TabType = 'chat' | 'compare' | 'history' | 'prompts' | 'settings';
 
 export const Sidebar: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('chat');
   const [isMinimized, setIsMinimized] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<AIProvider>('claude');
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
+  const [comparison, setComparison] = useState<{ message?: string; context?: Partial<PageContext> }>({});
+  const [incomingImage, setIncomingImage] = useState<ImageContent | null>(null);
+  const [summarizePageRequested, setSummarizePageRequested] = useState(false);
 
   const {
     conversations,
@@ -49,12 +53,37 @@ export const Sidebar: React.FC = () => {
       setActiveTab('chat');
     };
 
+    const handleOpenComparison = (event: CustomEvent) => {
+      setComparison({ message: event.detail?.message, context: event.detail?.context });
+      setIsMinimized(false);
+      setActiveTab('compare');
+    };
+
+    // Screenshots taken from the page, e.g. with the highlighter
+    const handleAttachImage = (event: CustomEvent) => {
+      setIncomingImage(event.detail.image);
+      setIsMinimized(false);
+      setActiveTab('chat');
+    };
+
+    const handleSummarizePage = () => {
+      setSummarizePageRequested(true);
+      setIsMinimized(false);
+      setActiveTab('chat');
+    };
+
     document.addEventListener('mai-sidebar-toggle', handleSidebarToggle as EventListener);
     document.addEventListener('mai-sidebar-request', handleSidebarRequest as EventListener);
+    document.addEventListener('mai-open-comparison-mode', handleOpenComparison as EventListener);
+    document.addEventListener('mai-attach-image', handleAttachImage as EventListener);
+    document.addEventListener('mai-summarize-page', handleSummarizePage);
 
     return () => {
       document.removeEventListener('mai-sidebar-toggle', handleSidebarToggle as EventListener);
       document.removeEventListener('mai-sidebar-request', handleSidebarRequest as EventListener);
+      document.removeEventListener('mai-open-comparison-mode', handleOpenComparison as EventListener);
+      document.removeEventListener('mai-attach-image', handleAttachImage as EventListener);
+      document.removeEventListener('mai-summarize-page', handleSummarizePage);
     };
   }, []);
 
@@ -95,6 +124,28 @@ export const Sidebar: React.FC = () => {
     setActiveTab('chat');
   };
 
+  // Carry on in chat with the provider whose answer won the comparison
+  const handleContinueFromComparison = (provider: AIProvider, messages: AIMessage[], context?: PageContext) => {
+    const conversation: Conversation = {
+      id: `conv-${Date.now()}`,
+      title: messages[0]?.content.substring(0, 50) || 'New Conversation',
+      provider,
+      messages,
+      context,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    addConversation(conversation);
+    setCurrentConversation(conversation);
+    setSelectedProvider(provider);
+    setActiveTab('chat');
+  };
+
+  const handleLockVault = () => {
+    chrome.runtime.sendMessage({ type: 'LOCK_VAULT' });
+  };
+
   const handleOpenSettings = () => {
     chrome.runtime.sendMessage({ type: 'OPEN_SETTINGS' });
   };
@@ -119,6 +170,13 @@ export const Sidebar: React.FC = () => {
               <h2 className="text-lg font-semibold">Multi-AI Assistant</h2>
             </div>
             <div className="flex items-center space-x-2">
+              <button
+                onClick={handleLockVault}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                title="Lock API keys"
+              >
+                <Lock className="w-4 h-4" />
+              </button>
               <button
                 onClick={handleMinimize}
                 className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
@@ -154,6 +212,7 @@ export const Sidebar: React.FC = () => {
             <ProviderSelector
               selected={selectedProvider}
               onChange={setSelectedProvider}
+              allowAuto
             />
           </div>
 
@@ -170,6 +229,17 @@ export const Sidebar: React.FC = () => {
               <MessageSquare className="w-4 h-4" />
               <span className="text-sm font-medium">Chat</span>
             </button>
+            <button
+              onClick={() => setActiveTab('compare')}
+              className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 border-b-2 transition-colors ${
+                activeTab === 'compare'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              <Columns className="w-4 h-4" />
+              <span className="text-sm font-medium">Compare</span>
+            </button>
             <button
               onClick={() => setActiveTab('history')}
               className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 border-b-2 transition-colors ${
@@ -211,6 +281,17 @@ export const Sidebar: React.FC = () => {
                   setCurrentConversation(conv);
                   updateConversation(conv);
                 }}
+                incomingImage={incomingImage}
+                onIncomingImageAttached={() => setIncomingImage(null)}
+                summarizePageRequested={summarizePageRequested}
+                onSummarizePageStarted={() => setSummarizePageRequested(false)}
+              />
+            )}
+            {activeTab === 'compare' && (
+              <ComparisonView
+                initialPrompt={comparison.message}
+                initialContext={comparison.context}
+                onContinue={handleContinueFromComparison}
               />
             )}
             {activeTab === 'history' && (
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RoutingStrategy } from '@/types/ai';
+
+export const strategyLabels: Record<RoutingStrategy, string> = {
+  balanced: 'Balanced',
+  cheapest: 'Cheapest that meets the quality bar',
+  fastest: 'Fastest',
+  best_quality: 'Best quality',
+  custom: 'Custom weights',
+};
+
+interface StrategySelectorProps {
+  value?: RoutingStrategy;
+  onChange: (strategy: RoutingStrategy | undefined) => void;
+  allowDefault?: boolean; // Offer "use the global setting" as an empty value
+  className?: string;
+}
+
+export const StrategySelector: React.FC<StrategySelectorProps> = ({
+  value,
+  onChange,
+  allowDefault = false,
+  className = '',
+}) => {
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange((e.target.value || undefined) as RoutingStrategy | undefined)}
+      className={`px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg ${className}`}
+    >
+      {allowDefault && <option value="">Default strategy</option>}
+      {(Object.keys(strategyLabels) as RoutingStrategy[]).map(strategy => (
+        <option key={strategy} value={strategy}>{strategyLabels[strategy]}</option>
+      ))}
+    </select>
+  );
+};
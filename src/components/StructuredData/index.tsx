@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Download, Braces, X } from 'lucide-react';
+import { JSONSchema } from '@/types/ai';
+
+interface StructuredDataViewProps {
+  data: any;
+}
+
+/**
+ * Renders a structured answer as a table with CSV and JSON downloads
+ */
+export const StructuredDataView: React.FC<StructuredDataViewProps> = ({ data }) => {
+  const rows = getRows(data);
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `data-${Date.now()}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="overflow-x-auto max-h-80 border border-gray-200 dark:border-gray-700 rounded">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+            <tr>
+              {columns.map(column => (
+                <th key={column} className="px-2 py-1 text-left font-medium">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                {columns.map(column => (
+                  <td key={column} className="px-2 py-1">{formatCell(row[column])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => download(toCSV(columns, rows), 'text/csv', 'csv')}
+          className="flex items-center space-x-1 px-2 py-1 text-xs hover:bg-white/10 rounded"
+        >
+          <Download className="w-3 h-3" />
+          <span>CSV</span>
+        </button>
+        <button
+          onClick={() => download(JSON.stringify(data, null, 2), 'application/json', 'json')}
+          className="flex items-center space-x-1 px-2 py-1 text-xs hover:bg-white/10 rounded"
+        >
+          <Download className="w-3 h-3" />
+          <span>JSON</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface SchemaEditorProps {
+  schema?: JSONSchema;
+  onChange: (schema: JSONSchema | undefined) => void;
+}
+
+const EXAMPLE_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      price: { type: 'number' },
+    },
+    required: ['name'],
+  },
+};
+
+/**
+ * Toggle and editor for the JSON Schema answers must follow
+ */
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const open = () => {
+    setText(JSON.stringify(schema || EXAMPLE_SCHEMA, null, 2));
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const apply = () => {
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setError('The schema must be a JSON object');
+        return;
+      }
+      onChange(parsed);
+      setIsOpen(false);
+    } catch (err) {
+      setError(`Invalid JSON: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-1">
+        <button
+          onClick={open}
+          className={`flex items-center space-x-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 ${
+            schema ? 'text-blue-600 dark:text-blue-400' : ''
+          }`}
+          title="Answer as JSON that follows a schema"
+        >
+          <Braces className="w-3 h-3" />
+          <span>{schema ? 'Structured output on' : 'Structured output'}</span>
+        </button>
+        {schema && (
+          <button
+            onClick={() => onChange(undefined)}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Turn off structured output"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="w-full h-40 px-2 py-1 font-mono text-xs bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg"
+            spellCheck={false}
+          />
+          {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="px-2 py-1 text-xs rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={apply}
+              className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              Use schema
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// One table row per record. A single list inside an object, such as
+// { "products": [...] }, is treated as the records.
+function getRows(data: any): Record<string, any>[] {
+  if (Array.isArray(data)) {
+    return data.map(item => (isRecord(item) ? item : { value: item }));
+  }
+
+  if (isRecord(data)) {
+    const lists = Object.values(data).filter(value => Array.isArray(value));
+    if (lists.length === 1 && Object.keys(data).length === 1) {
+      return getRows(lists[0]);
+    }
+    return [data];
+  }
+
+  return [{ value: data }];
+}
+
+function isRecord(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function formatCell(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toCSV(columns: string[], rows: Record<string, any>[]): string {
+  const escape = (cell: string) => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [columns, ...rows.map(row => columns.map(column => formatCell(row[column])))]
+    .map(line => line.map(escape).join(','))
+    .join('\n');
+}
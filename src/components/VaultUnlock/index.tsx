@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Loader, AlertCircle } from 'lucide-react';
+import { VaultStatus } from '@/types/storage';
+
+interface VaultUnlockProps {
+  onUnlocked: () => void;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ onUnlocked }) => {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unmigratedKeys, setUnmigratedKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_VAULT_STATUS' }).then(setStatus);
+  }, []);
+
+  const isSetup = status !== null && !status.initialized;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isSubmitting) return;
+
+    if (isSetup && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const response = await chrome.runtime.sendMessage({
+      type: 'UNLOCK_VAULT',
+      payload: { password },
+    });
+
+    setIsSubmitting(false);
+    setPassword('');
+    setConfirmPassword('');
+
+    if (response?.error) {
+      setError(response.error);
+      return;
+    }
+
+    // Keys from before the vault that couldn't be decrypted were dropped
+    if (response?.unmigratedKeys?.length) {
+      setUnmigratedKeys(response.unmigratedKeys);
+      return;
+    }
+
+    onUnlocked();
+  };
+
+  if (unmigratedKeys.length > 0) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+        <div className="flex items-start space-x-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <span>
+            Your vault was created, but the saved API key for {unmigratedKeys.join(', ')} could not be
+            decrypted. Enter it again in the settings.
+          </span>
+        </div>
+        <button
+          onClick={onUnlocked}
+          className="w-full py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          Continue
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-4 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3"
+    >
+      <div className="flex items-center space-x-2">
+        <Lock className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        <span className="text-sm font-medium">
+          {isSetup ? 'Create a master password' : 'Unlock your API keys'}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {isSetup
+          ? 'Your API keys are encrypted with this password. It is never stored and cannot be recovered.'
+          : 'Enter your master password to continue.'}
+      </p>
+
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Master password"
+        autoFocus
+        className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+      />
+      {isSetup && (
+        <input
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          placeholder="Confirm password"
+          className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+        />
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={!password || isSubmitting}
+        className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSubmitting && <Loader className="w-4 h-4 animate-spin" />}
+        <span>{isSetup ? 'Create vault' : 'Unlock'}</span>
+      </button>
+    </form>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 import { Search, Command, ArrowRight, X } from 'lucide-react';
 import { CommandPaletteItem } from '@/types/extension';
+import { openSidebarWithPageSummary } from './sidebar';
 
 let commandPaletteRoot: ReactDOM.Root | null = null;
 let commandPaletteContainer: HTMLElement | null = null;
@@ -14,13 +15,7 @@ const defaultCommands: CommandPaletteItem[] = [
     category: 'Actions',
     icon: '📝',
     action: () => {
-      chrome.runtime.sendMessage({
-        type: 'SEND_TO_AI',
-        payload: {
-          message: 'Please summarize this page',
-          useContext: true,
-        },
-      });
+      openSidebarWithPageSummary();
     },
   },
   {
@@ -1,7 +1,15 @@
+import providerRegistry from '@/services/providerRegistry';
+
 /**
  * Custom prompt dialog for content script
  */
 
+function renderProviderOptions(): string {
+  const options = providerRegistry.list()
+    .map(provider => `<option value="${provider.id}">${provider.name}</option>`);
+  return [...options, '<option value="auto">Auto-select</option>'].join('');
+}
+
 export function setupCustomPromptDialog(): void {
   let dialogContainer: HTMLElement | null = null;
 
@@ -56,11 +64,7 @@ export function setupCustomPromptDialog(): void {
           background: white;
           color: #111827;
         ">
-          <option value="claude">Claude</option>
-          <option value="chatgpt">ChatGPT</option>
-          <option value="gemini">Gemini</option>
-          <option value="grok">Grok</option>
-          <option value="auto">Auto-select</option>
+          ${renderProviderOptions()}
         </select>
       </div>
 
@@ -160,6 +164,10 @@ export function setupCustomPromptDialog(): void {
       setupEventHandlers();
     }
 
+    // Custom providers may have changed since the dialog was created
+    const providerSelect = dialogContainer.querySelector('#mai-provider-select') as HTMLSelectElement;
+    providerSelect.innerHTML = renderProviderOptions();
+
     dialogContainer.style.display = 'flex';
 
     // Show context if available
@@ -2,6 +2,9 @@
  * Text highlighter and selection manager for content script
  */
 
+import { Screenshot } from '@/utils/screenshot';
+import { openSidebarWithImage } from './sidebar';
+
 interface SelectionInfo {
   text: string;
   range: Range;
@@ -181,6 +184,11 @@ class TextHighlighter {
         title: 'Ask AI',
         action: () => this.askAIAboutSelection(),
       },
+      {
+        icon: '📷',
+        title: 'Screenshot',
+        action: () => this.attachScreenshotOfSelection(),
+      },
     ];
 
     actions.forEach(({ icon, title, action }) => {
@@ -277,6 +285,26 @@ class TextHighlighter {
     this.openSidebar();
   }
 
+  // Attach a screenshot of the selected area to the chat, e.g. for a chart
+  // or formula the text alone doesn't capture
+  private async attachScreenshotOfSelection(): Promise<void> {
+    if (!this.currentSelection) return;
+
+    const rect = this.currentSelection.range.getBoundingClientRect();
+    const margin = 16;
+    try {
+      const image = await Screenshot.capture({
+        x: rect.left - margin,
+        y: rect.top - margin,
+        width: rect.width + margin * 2,
+        height: rect.height + margin * 2,
+      });
+      openSidebarWithImage({ image });
+    } catch (error) {
+      console.error('Failed to take screenshot:', error);
+    }
+  }
+
   private getPromptForAction(action: string, text: string): string {
     const prompts: Record<string, string> = {
       explain: `Please explain the following text in simple terms:\n\n"${text}"`,
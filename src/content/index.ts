@@ -1,8 +1,11 @@
 import { ExtensionMessage, PageContext } from '@/types/extension';
-import { injectSidebar, toggleSidebar, openSidebarWithRequest } from './sidebar';
+import { injectSidebar, toggleSidebar, openSidebarWithRequest, openSidebarWithComparison } from './sidebar';
 import { setupCommandPalette } from './commandPalette';
 import { setupHighlighter } from './highlighter';
 import { setupCustomPromptDialog } from './customPrompt';
+import { loadCustomProviders } from '@/services/customEndpoint';
+import { DOMParser } from '@/utils/domParser';
+import { runPageTool } from './pageReader';
 
 // Initialize content script
 (function initContentScript() {
@@ -12,7 +15,10 @@ import { setupCustomPromptDialog } from './customPrompt';
   }
   window.__multiAIExtensionInjected = true;
 
-  // Initialize components
+  // Initialize components. Without custom providers the built-in ones still work.
+  loadCustomProviders().catch(error => {
+    console.error('Failed to load custom providers:', error);
+  });
   injectSidebar();
   setupCommandPalette();
   setupHighlighter();
@@ -51,6 +57,14 @@ function handleMessage(
       sendResponse(extractPageContext());
       break;
 
+    case 'RUN_PAGE_TOOL':
+      try {
+        sendResponse({ content: runPageTool(message.payload.name, message.payload.args) });
+      } catch (error) {
+        sendResponse({ error: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
     case 'OPEN_SIDEBAR_WITH_REQUEST':
       openSidebarWithRequest(message.payload);
       break;
@@ -135,6 +149,7 @@ function extractPageContext(): PageContext {
     selection,
     visibleText: visibleText.substring(0, 10000), // Limit to 10k chars
     fullHtml: '', // Only extract if specifically requested
+    pageType: DOMParser.detectPageType(),
     metadata,
   };
 }
@@ -239,8 +254,7 @@ function closeCommandPalette() {
 
 // Open comparison mode
 function openComparisonMode(payload: any) {
-  const event = new CustomEvent('mai-open-comparison-mode', { detail: payload });
-  document.dispatchEvent(event);
+  openSidebarWithComparison(payload);
 }
 
 // Open custom prompt dialog
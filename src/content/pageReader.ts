@@ -0,0 +1,78 @@
+import { DOMParser } from '@/utils/domParser';
+
+// Keep tool results well inside a model's context window
+const MAX_RESULT_LENGTH = 20000;
+
+/**
+ * Run one of the built-in page tools against the current document and
+ * return its result as text for the model
+ */
+export function runPageTool(name: string, args: Record<string, any>): string {
+  switch (name) {
+    case 'get_page_headings':
+      return readHeadings();
+    case 'get_page_tables':
+      return readTables(args.limit);
+    case 'get_page_links':
+      return readLinks(args.limit, args.contains);
+    case 'get_page_code_blocks':
+      return readCodeBlocks(args.language);
+    default:
+      throw new Error(`Unknown page tool: ${name}`);
+  }
+}
+
+function readHeadings(): string {
+  const headings = DOMParser.extractHeadings();
+  if (headings.length === 0) return 'The page has no headings.';
+
+  return truncate(headings.map(h => `${'  '.repeat(h.level - 1)}H${h.level}: ${h.text}`).join('\n'));
+}
+
+function readTables(limit: number = 5): string {
+  const tables = DOMParser.extractTables(limit);
+  if (tables.length === 0) return 'The page has no tables.';
+
+  // Markdown tables are compact and every model reads them well
+  const formatted = tables.map((table, index) => {
+    const columns = Math.max(table.headers.length, ...table.rows.map(row => row.length));
+    const headers = table.headers.length > 0 ? table.headers : new Array(columns).fill('');
+    const lines = [
+      `| ${headers.join(' | ')} |`,
+      `| ${headers.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row => `| ${row.join(' | ')} |`),
+    ];
+    return `Table ${index + 1}:\n${lines.join('\n')}`;
+  });
+
+  return truncate(formatted.join('\n\n'));
+}
+
+function readLinks(limit: number = 50, contains?: string): string {
+  let links = DOMParser.extractLinks(contains ? 500 : limit);
+  if (contains) {
+    const needle = contains.toLowerCase();
+    links = links
+      .filter(link => link.text.toLowerCase().includes(needle) || link.href.toLowerCase().includes(needle))
+      .slice(0, limit);
+  }
+  if (links.length === 0) return 'No matching links on the page.';
+
+  return truncate(links.map(link => `- [${link.text}](${link.href})`).join('\n'));
+}
+
+function readCodeBlocks(language?: string): string {
+  let blocks = DOMParser.extractCodeBlocks();
+  if (language) {
+    blocks = blocks.filter(block => block.language.toLowerCase() === language.toLowerCase());
+  }
+  if (blocks.length === 0) return 'No matching code blocks on the page.';
+
+  return truncate(blocks.map(block => `\`\`\`${block.language === 'unknown' ? '' : block.language}\n${block.code}\n\`\`\``).join('\n\n'));
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RESULT_LENGTH
+    ? `${text.substring(0, MAX_RESULT_LENGTH)}\n[Truncated]`
+    : text;
+}
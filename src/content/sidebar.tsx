@@ -108,6 +108,41 @@ export function openSidebarWithRequest(payload: any) {
   }, 300);
 }
 
+export function openSidebarWithComparison(payload: any) {
+  if (!sidebarContainer || sidebarContainer.style.width === '0') {
+    toggleSidebar();
+  }
+
+  // Give the sidebar time to open before switching it to comparison mode
+  setTimeout(() => {
+    const event = new CustomEvent('mai-open-comparison-mode', { detail: payload });
+    document.dispatchEvent(event);
+  }, 300);
+}
+
+export function openSidebarWithImage(payload: any) {
+  if (!sidebarContainer || sidebarContainer.style.width === '0') {
+    toggleSidebar();
+  }
+
+  // Give the sidebar time to open before attaching the image to the chat
+  setTimeout(() => {
+    const event = new CustomEvent('mai-attach-image', { detail: payload });
+    document.dispatchEvent(event);
+  }, 300);
+}
+
+export function openSidebarWithPageSummary() {
+  if (!sidebarContainer || sidebarContainer.style.width === '0') {
+    toggleSidebar();
+  }
+
+  // Give the sidebar time to open before the chat starts summarizing
+  setTimeout(() => {
+    document.dispatchEvent(new CustomEvent('mai-summarize-page'));
+  }, 300);
+}
+
 export function closeSidebar() {
   if (sidebarContainer && sidebarContainer.style.width === '420px') {
     toggleSidebar();
@@ -0,0 +1,55 @@
+import React from 'react';
+import { HistoryOverflow } from '@/types/extension';
+import { useExtensionStore } from '@/stores/extensionStore';
+
+const overflowOptions: { value: HistoryOverflow; label: string; description: string }[] = [
+  {
+    value: 'summarize',
+    label: 'Summarize older messages',
+    description: 'A cheap model from the same provider condenses them into a summary that is sent instead.',
+  },
+  {
+    value: 'drop',
+    label: 'Drop older messages',
+    description: 'Only the newest messages that fit are sent. Nothing extra is spent, but earlier details are forgotten.',
+  },
+];
+
+export const ConversationSettings: React.FC = () => {
+  const { settings, updateSettings } = useExtensionStore();
+
+  if (!settings) return null;
+
+  const handleOverflowChange = (historyOverflow: HistoryOverflow) => {
+    updateSettings({ advanced: { ...settings.advanced, historyOverflow } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium mb-1">When a conversation outgrows the model</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Each request leaves room for the system prompt, page context and answer. Messages that no longer fit
+          are faded in the chat.
+        </p>
+        <div className="space-y-2">
+          {overflowOptions.map(option => (
+            <label key={option.value} className="flex items-start space-x-3">
+              <input
+                type="radio"
+                name="history-overflow"
+                checked={settings.advanced.historyOverflow === option.value}
+                onChange={() => handleOverflowChange(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <div className="text-sm font-medium">{option.label}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
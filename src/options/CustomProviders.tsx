@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { Server, Plus, Trash2, RefreshCw, AlertCircle } from 'lucide-react';
+import { CustomProviderConfig } from '@/types/provider';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { getOriginPattern } from '@/services/customEndpoint';
+import storageService from '@/services/storage';
+
+export const CustomProviders: React.FC = () => {
+  const { settings, updateSettings, loadSettings } = useExtensionStore();
+  const [isAdding, setIsAdding] = useState(false);
+
+  if (!settings) return null;
+
+  const handleRemove = async (id: string) => {
+    await storageService.removeCustomProvider(id);
+    await loadSettings();
+  };
+
+  const handleAdded = async (config: CustomProviderConfig) => {
+    await updateSettings({
+      customProviders: [...settings.customProviders, config],
+      providers: {
+        ...settings.providers,
+        [config.id]: {
+          enabled: true,
+          model: config.defaultModel,
+          temperature: 0.7,
+          maxTokens: 4000,
+        },
+      },
+    });
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Connect any server with an OpenAI-compatible API, such as Ollama, LM Studio, vLLM or LiteLLM.
+      </p>
+
+      {settings.customProviders.length > 0 && (
+        <div className="space-y-2">
+          {settings.customProviders.map(provider => (
+            <div
+              key={provider.id}
+              className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg"
+            >
+              <div className="flex items-center space-x-3">
+                <Server className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                <div>
+                  <div className="text-sm font-medium">{provider.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {provider.baseUrl} · {provider.models.length} models
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRemove(provider.id)}
+                className="p-1.5 text-gray-400 hover:text-red-500 transition-colors"
+                title="Remove provider"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdding ? (
+        <CustomProviderForm onSaved={handleAdded} onCancel={() => setIsAdding(false)} />
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center space-x-2 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add provider</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface CustomProviderFormProps {
+  onSaved: (config: CustomProviderConfig) => void;
+  onCancel: () => void;
+}
+
+const CustomProviderForm: React.FC<CustomProviderFormProps> = ({ onSaved, onCancel }) => {
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('http://localhost:11434/v1');
+  const [apiKey, setApiKey] = useState('');
+  const [authHeader, setAuthHeader] = useState('');
+  const [models, setModels] = useState<string[]>([]);
+  const [defaultModel, setDefaultModel] = useState('');
+  const [contextWindow, setContextWindow] = useState(8192);
+  const [inputPrice, setInputPrice] = useState(0);
+  const [outputPrice, setOutputPrice] = useState(0);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildConfig = (id: string): CustomProviderConfig => ({
+    id,
+    name: name.trim(),
+    baseUrl: baseUrl.trim().replace(/\/+$/, ''),
+    authHeader: authHeader.trim() || undefined,
+    requiresApiKey: !!apiKey,
+    models,
+    defaultModel,
+    contextWindow,
+    pricing: { input: inputPrice, output: outputPrice },
+  });
+
+  // The browser only lets the extension reach hosts the user has approved
+  const requestHostPermission = async (): Promise<boolean> => {
+    try {
+      const granted = await chrome.permissions.request({ origins: [getOriginPattern(baseUrl)] });
+      if (!granted) {
+        setError('Permission to access this server was denied');
+      }
+      return granted;
+    } catch (err) {
+      setError('Enter a valid URL, e.g. http://localhost:11434/v1');
+      return false;
+    }
+  };
+
+  const handleDiscover = async () => {
+    setError(null);
+    if (!(await requestHostPermission())) return;
+
+    setIsDiscovering(true);
+    const response = await chrome.runtime.sendMessage({
+      type: 'DISCOVER_MODELS',
+      payload: { endpoint: buildConfig('custom-discovery'), apiKey },
+    });
+    setIsDiscovering(false);
+
+    if (response?.error || !response?.models?.length) {
+      setError(response?.error || 'No models were found at this endpoint');
+      return;
+    }
+
+    setModels(response.models);
+    setDefaultModel(current => response.models.includes(current) ? current : response.models[0]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!(await requestHostPermission())) return;
+
+    const config = buildConfig(`custom-${Date.now().toString(36)}`);
+
+    if (apiKey) {
+      const response = await chrome.runtime.sendMessage({
+        type: 'API_KEY_UPDATED',
+        payload: { provider: config.id, apiKey },
+      });
+      if (response?.error) {
+        setError(response.errorCode === 'vault_locked'
+          ? 'Unlock your API keys on the Security page before adding an authenticated provider'
+          : response.error);
+        return;
+      }
+    }
+
+    onSaved(config);
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3"
+    >
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Local Llama"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Base URL</label>
+          <input
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder="http://localhost:11434/v1"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">API key (optional)</label>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Auth header (optional)</label>
+          <input
+            value={authHeader}
+            onChange={(e) => setAuthHeader(e.target.value)}
+            placeholder="Authorization"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-end space-x-3">
+        <div className="flex-1">
+          <label className="block text-sm font-medium mb-1">Default model</label>
+          <select
+            value={defaultModel}
+            onChange={(e) => setDefaultModel(e.target.value)}
+            disabled={models.length === 0}
+            className={inputClassName}
+          >
+            {models.length === 0 && <option value="">Discover models first</option>}
+            {models.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={handleDiscover}
+          disabled={!baseUrl || isDiscovering}
+          className="flex items-center space-x-2 py-2 px-4 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${isDiscovering ? 'animate-spin' : ''}`} />
+          <span>Discover models</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Context window</label>
+          <input
+            type="number"
+            min={1}
+            value={contextWindow}
+            onChange={(e) => setContextWindow(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Input $ / 1K tokens</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={inputPrice}
+            onChange={(e) => setInputPrice(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Output $ / 1K tokens</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={outputPrice}
+            onChange={(e) => setOutputPrice(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={!name.trim() || !defaultModel}
+          className="py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Save provider
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-2 px-4 text-gray-600 dark:text-gray-400 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Shield, Server, Shuffle, ListOrdered, MessageSquare } from 'lucide-react';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { SecuritySettings } from './SecuritySettings';
+import { CustomProviders } from './CustomProviders';
+import { RoutingSettings } from './RoutingSettings';
+import { RoutingRules } from './RoutingRules';
+import { ConversationSettings } from './ConversationSettings';
+
+interface SectionInfo {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  render: () => React.ReactNode;
+}
+
+const sections: SectionInfo[] = [
+  {
+    id: 'security',
+    label: 'Security',
+    icon: <Shield className="w-4 h-4" />,
+    render: () => <SecuritySettings />,
+  },
+  {
+    id: 'custom-providers',
+    label: 'Custom Providers',
+    icon: <Server className="w-4 h-4" />,
+    render: () => <CustomProviders />,
+  },
+  {
+    id: 'routing',
+    label: 'Routing',
+    icon: <Shuffle className="w-4 h-4" />,
+    render: () => <RoutingSettings />,
+  },
+  {
+    id: 'routing-rules',
+    label: 'Routing Rules',
+    icon: <ListOrdered className="w-4 h-4" />,
+    render: () => <RoutingRules />,
+  },
+  {
+    id: 'conversations',
+    label: 'Conversations',
+    icon: <MessageSquare className="w-4 h-4" />,
+    render: () => <ConversationSettings />,
+  },
+];
+
+export const Options: React.FC = () => {
+  const [activeSection, setActiveSection] = useState(sections[0].id);
+  const { loadSettings } = useExtensionStore();
+
+  useEffect(() => {
+    loadSettings();
+
+    // Sections can be deep-linked from the popup, e.g. options.html#security
+    const handleHashChange = () => {
+      const hash = window.location.hash.slice(1);
+      if (sections.some(s => s.id === hash)) {
+        setActiveSection(hash);
+      }
+    };
+
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const current = sections.find(s => s.id === activeSection) || sections[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-500 to-purple-600 px-8 py-6">
+        <h1 className="text-white font-semibold text-2xl">Multi-AI Assistant Settings</h1>
+      </div>
+
+      <div className="max-w-5xl mx-auto flex p-8 space-x-8">
+        {/* Navigation */}
+        <nav className="w-48 space-y-1">
+          {sections.map(section => (
+            <a
+              key={section.id}
+              href={`#${section.id}`}
+              className={`flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                section.id === current.id
+                  ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {section.icon}
+              <span>{section.label}</span>
+            </a>
+          ))}
+        </nav>
+
+        {/* Section Content */}
+        <div className="flex-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">{current.label}</h2>
+          {current.render()}
+        </div>
+      </div>
+    </div>
+  );
+};
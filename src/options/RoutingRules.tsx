@@ -0,0 +1,488 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus, FlaskConical, AlertCircle } from 'lucide-react';
+import { AIRequest, RoutingExplanation, RoutingRuleConditions, RoutingStrategy, TaskType, UserRoutingRule } from '@/types/ai';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { StrategySelector, strategyLabels } from '@/components/StrategySelector';
+
+const taskTypes: TaskType[] = [
+  'creative_writing',
+  'analysis',
+  'reasoning',
+  'code_generation',
+  'debugging',
+  'technical_docs',
+  'research',
+  'real_time_info',
+  'translation',
+  'summarization',
+  'casual_chat',
+  'data_extraction',
+];
+
+// Values returned by DOMParser.detectPageType
+const pageTypes = ['article', 'product', 'homepage', 'search', 'video', 'gallery', 'login', 'general'];
+
+const inputClassName = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+const isValidPattern = (pattern?: string): boolean => {
+  if (!pattern) return true;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const describeConditions = (conditions: RoutingRuleConditions): string => {
+  const parts: string[] = [];
+  if (conditions.promptPattern) parts.push(`prompt /${conditions.promptPattern}/`);
+  if (conditions.urlPattern) parts.push(`URL /${conditions.urlPattern}/`);
+  if (conditions.domains?.length) parts.push(`on ${conditions.domains.join(', ')}`);
+  if (conditions.pageTypes?.length) parts.push(`${conditions.pageTypes.join(' or ')} pages`);
+  if (conditions.minTokens !== undefined) parts.push(`≥ ${conditions.minTokens} tokens`);
+  if (conditions.maxTokens !== undefined) parts.push(`≤ ${conditions.maxTokens} tokens`);
+  return parts.length > 0 ? parts.join(' · ') : 'Always';
+};
+
+export const RoutingRules: React.FC = () => {
+  const { settings, updateSettings, providers } = useExtensionStore();
+  const [editing, setEditing] = useState<UserRoutingRule | null>(null);
+
+  if (!settings) return null;
+
+  const rules = settings.routing.rules;
+
+  const saveRules = (updated: UserRoutingRule[]) => {
+    updateSettings({ routing: { ...settings.routing, rules: updated } });
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveRules(next);
+  };
+
+  const handleSave = (rule: UserRoutingRule) => {
+    const exists = rules.some(r => r.id === rule.id);
+    saveRules(exists ? rules.map(r => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+    setEditing(null);
+  };
+
+  const getProviderName = (id: string) => providers.find(p => p.id === id)?.name || id;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Rules are checked from top to bottom when routing automatically. The first enabled rule whose
+        conditions all match sets the task type and gives its provider the full capability score.
+      </p>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div
+            key={rule.id}
+            className={`flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg ${
+              rule.enabled ? '' : 'opacity-50'
+            }`}
+          >
+            <div className="flex items-center space-x-3 min-w-0">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => saveRules(rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                title="Enabled"
+              />
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {index + 1}. {rule.name} → {getProviderName(rule.provider)}
+                  {rule.taskType && <span className="font-normal text-gray-500"> ({rule.taskType})</span>}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {describeConditions(rule.conditions)}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-1 flex-shrink-0">
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Higher priority"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === rules.length - 1}
+                className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Lower priority"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setEditing(rule)}
+                className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                title="Edit"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => saveRules(rules.filter(r => r.id !== rule.id))}
+                className="p-1.5 text-gray-400 hover:text-red-500 transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing ? (
+        <RuleForm rule={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      ) : (
+        <button
+          onClick={() => setEditing({
+            id: `rule-${Date.now().toString(36)}`,
+            name: '',
+            enabled: true,
+            conditions: {},
+            provider: providers[0]?.id || '',
+          })}
+          className="flex items-center space-x-2 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add rule</span>
+        </button>
+      )}
+
+      <RuleTester />
+    </div>
+  );
+};
+
+interface RuleFormProps {
+  rule: UserRoutingRule;
+  onSave: (rule: UserRoutingRule) => void;
+  onCancel: () => void;
+}
+
+const RuleForm: React.FC<RuleFormProps> = ({ rule, onSave, onCancel }) => {
+  const { providers } = useExtensionStore();
+  const [draft, setDraft] = useState<UserRoutingRule>(rule);
+  const [domains, setDomains] = useState((rule.conditions.domains || []).join(', '));
+
+  const setConditions = (updates: Partial<RoutingRuleConditions>) => {
+    setDraft(current => ({ ...current, conditions: { ...current.conditions, ...updates } }));
+  };
+
+  const parseTokens = (value: string) => (value === '' ? undefined : Number(value));
+
+  const patternsValid = isValidPattern(draft.conditions.promptPattern) && isValidPattern(draft.conditions.urlPattern);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const domainList = domains
+      .split(',')
+      .map(d => d.trim().toLowerCase())
+      .filter(Boolean);
+
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      conditions: {
+        ...draft.conditions,
+        promptPattern: draft.conditions.promptPattern || undefined,
+        urlPattern: draft.conditions.urlPattern || undefined,
+        domains: domainList.length > 0 ? domainList : undefined,
+        pageTypes: draft.conditions.pageTypes?.length ? draft.conditions.pageTypes : undefined,
+      },
+    });
+  };
+
+  const togglePageType = (pageType: string) => {
+    const current = draft.conditions.pageTypes || [];
+    setConditions({
+      pageTypes: current.includes(pageType) ? current.filter(t => t !== pageType) : [...current, pageType],
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3"
+    >
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Code questions"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Provider</label>
+          <select
+            value={draft.provider}
+            onChange={(e) => setDraft({ ...draft, provider: e.target.value, model: undefined })}
+            className={inputClassName}
+          >
+            {providers.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Task type</label>
+          <select
+            value={draft.taskType || ''}
+            onChange={(e) => setDraft({ ...draft, taskType: (e.target.value || undefined) as TaskType | undefined })}
+            className={inputClassName}
+          >
+            <option value="">Detect automatically</option>
+            {taskTypes.map(taskType => (
+              <option key={taskType} value={taskType}>{taskType}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Prompt matches (regex)</label>
+          <input
+            value={draft.conditions.promptPattern || ''}
+            onChange={(e) => setConditions({ promptPattern: e.target.value })}
+            placeholder="refactor|typescript"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Page URL matches (regex)</label>
+          <input
+            value={draft.conditions.urlPattern || ''}
+            onChange={(e) => setConditions({ urlPattern: e.target.value })}
+            placeholder="/pull/\d+"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Domains</label>
+          <input
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+            placeholder="github.com, stackoverflow.com"
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Min tokens</label>
+            <input
+              type="number"
+              min={0}
+              value={draft.conditions.minTokens ?? ''}
+              onChange={(e) => setConditions({ minTokens: parseTokens(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Max tokens</label>
+            <input
+              type="number"
+              min={0}
+              value={draft.conditions.maxTokens ?? ''}
+              onChange={(e) => setConditions({ maxTokens: parseTokens(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Page types</label>
+        <div className="flex flex-wrap gap-3">
+          {pageTypes.map(pageType => (
+            <label key={pageType} className="flex items-center space-x-1 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.conditions.pageTypes?.includes(pageType) || false}
+                onChange={() => togglePageType(pageType)}
+              />
+              <span>{pageType}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {!patternsValid && (
+        <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>One of the patterns is not a valid regular expression</span>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={!draft.name.trim() || !draft.provider || !patternsValid}
+          className="py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Save rule
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-2 px-4 text-gray-600 dark:text-gray-400 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Dry run of the router against the saved rules, without sending anything
+const RuleTester: React.FC = () => {
+  const [prompt, setPrompt] = useState('');
+  const [url, setUrl] = useState('');
+  const [pageType, setPageType] = useState('general');
+  const [strategy, setStrategy] = useState<RoutingStrategy | undefined>();
+  const [result, setResult] = useState<RoutingExplanation | null>(null);
+
+  const handleTest = async () => {
+    const request: AIRequest = {
+      provider: '',
+      model: '',
+      messages: [{ role: 'user', content: prompt }],
+      context: { url, title: '', pageType },
+      routingStrategy: strategy,
+    };
+
+    const explanation = await chrome.runtime.sendMessage({ type: 'EXPLAIN_ROUTING', payload: { request } });
+    setResult(explanation);
+  };
+
+  return (
+    <div className="pt-6 border-t border-gray-200 dark:border-gray-700 space-y-3">
+      <h3 className="text-sm font-medium">Test routing</h3>
+
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="Paste a sample prompt"
+        rows={3}
+        className={inputClassName}
+      />
+
+      <div className="flex space-x-3">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="Page URL (optional)"
+          className={inputClassName}
+        />
+        <select value={pageType} onChange={(e) => setPageType(e.target.value)} className="w-40 px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {pageTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <StrategySelector value={strategy} onChange={setStrategy} allowDefault className="w-48" />
+        <button
+          onClick={handleTest}
+          disabled={!prompt.trim()}
+          className="flex items-center space-x-2 py-2 px-4 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          <FlaskConical className="w-4 h-4" />
+          <span>Test</span>
+        </button>
+      </div>
+
+      {result && (
+        <div className="space-y-2 text-sm">
+          <div>
+            Task type <span className="font-medium">{result.taskType}</span>{' '}
+            <span className="text-gray-500 dark:text-gray-400">
+              (by {result.classification.classifier}, {Math.round(result.classification.confidence * 100)}% confident)
+            </span>{' '}
+            ·{' '}
+            {result.matchedRule ? (
+              <>Rule <span className="font-medium">{result.matchedRule.name}</span> fired</>
+            ) : (
+              'No rule fired'
+            )}{' '}
+            · Routes to <span className="font-medium">{result.recommendedModel}</span> ({result.recommended})
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {strategyLabels[result.strategy]}
+            {result.strategy !== 'balanced' && (
+              result.balancedRecommended.model === result.recommendedModel &&
+              result.balancedRecommended.provider === result.recommended
+                ? ' · same pick as balanced'
+                : ` · balanced would pick ${result.balancedRecommended.model}`
+            )}
+            {result.scores[0]?.belowQualityBar && ' · no model met the quality bar'}
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1">Model</th>
+                <th>Capability</th>
+                <th>Preference</th>
+                <th>Cost</th>
+                <th>Speed</th>
+                <th>Score</th>
+              </tr>
+              <tr className="text-left text-gray-400 dark:text-gray-500">
+                <th className="py-1 font-normal">Weight</th>
+                <th className="font-normal">{result.weights.capabilityMatch.toFixed(2)}</th>
+                <th className="font-normal">{result.weights.userPreference.toFixed(2)}</th>
+                <th className="font-normal">{result.weights.costEfficiency.toFixed(2)}</th>
+                <th className="font-normal">{result.weights.responseSpeed.toFixed(2)}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {result.scores.map(score => (
+                <tr
+                  key={`${score.provider}:${score.model}`}
+                  className={
+                    score.provider === result.recommended && score.model === result.recommendedModel
+                      ? 'font-medium text-blue-600 dark:text-blue-400'
+                      : ''
+                  }
+                >
+                  <td className="py-1" title={score.provider}>{score.model}</td>
+                  <td>{score.factors.capabilityMatch.toFixed(2)}</td>
+                  <td>{score.factors.userPreference.toFixed(2)}</td>
+                  <td>{score.factors.costEfficiency.toFixed(2)}</td>
+                  <td>{score.factors.responseSpeed.toFixed(2)}</td>
+                  <td title={score.belowQualityBar ? 'Below the quality bar' : undefined}>
+                    {score.score.toFixed(2)}{score.belowQualityBar && '*'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {result.rejected.length > 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              <div className="font-medium">Ruled out</div>
+              {result.rejected.map(rejected => (
+                <div key={`${rejected.provider}:${rejected.model}`}>
+                  {rejected.model}: {rejected.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
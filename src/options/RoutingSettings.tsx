@@ -0,0 +1,492 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowUp, ArrowDown, X, Plus, RotateCcw } from 'lucide-react';
+import { AIProvider, TaskType, TaskClassifierId, RoutingPreferences, RoutingWeights } from '@/types/ai';
+import { MeasuredMetrics } from '@/types/provider';
+import { JudgeSettings } from '@/types/extension';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { StrategySelector } from '@/components/StrategySelector';
+
+type ChainKey = TaskType | 'default';
+
+const chainLabels: Record<ChainKey, string> = {
+  default: 'All tasks',
+  creative_writing: 'Creative writing',
+  analysis: 'Analysis',
+  reasoning: 'Reasoning',
+  code_generation: 'Code generation',
+  debugging: 'Debugging',
+  technical_docs: 'Technical docs',
+  research: 'Research',
+  real_time_info: 'Real-time info',
+  translation: 'Translation',
+  summarization: 'Summarization',
+  casual_chat: 'Casual chat',
+  data_extraction: 'Data extraction',
+};
+
+const weightLabels: Record<keyof RoutingWeights, string> = {
+  capabilityMatch: 'Capability',
+  userPreference: 'Your preference',
+  costEfficiency: 'Cost',
+  responseSpeed: 'Speed',
+};
+
+export const RoutingSettings: React.FC = () => {
+  const { settings, updateSettings, providers } = useExtensionStore();
+
+  if (!settings) return null;
+
+  const { failoverEnabled, failoverChains, strategy, customWeights, qualityBar, classifier } = settings.routing;
+
+  const updateRouting = (updates: Partial<typeof settings.routing>) => {
+    updateSettings({ routing: { ...settings.routing, ...updates } });
+  };
+
+  // An empty chain falls back to the default one
+  const setChain = (key: ChainKey, chain: AIProvider[]) => {
+    updateRouting({ failoverChains: { ...failoverChains, [key]: chain } });
+  };
+
+  const chainKeys = (Object.keys(chainLabels) as ChainKey[]).filter(
+    key => key === 'default' || failoverChains[key]?.length
+  );
+  const unusedKeys = (Object.keys(chainLabels) as ChainKey[]).filter(key => !chainKeys.includes(key));
+
+  const getProviderName = (id: AIProvider) => providers.find(p => p.id === id)?.name || id;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium">Routing strategy</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              How Auto picks a provider. Conversations can override this.
+            </div>
+          </div>
+          <StrategySelector value={strategy} onChange={(value) => value && updateRouting({ strategy: value })} />
+        </div>
+
+        {strategy === 'cheapest' && (
+          <label className="flex items-center justify-between text-sm">
+            <span>Quality bar (minimum capability match)</span>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={qualityBar}
+              onChange={(e) => updateRouting({ qualityBar: Math.min(1, Math.max(0, Number(e.target.value))) })}
+              className="w-20 px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+            />
+          </label>
+        )}
+
+        {strategy === 'custom' && (
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(weightLabels) as (keyof RoutingWeights)[]).map(factor => (
+              <label key={factor} className="flex items-center justify-between text-sm">
+                <span>{weightLabels[factor]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={customWeights[factor]}
+                  onChange={(e) =>
+                    updateRouting({ customWeights: { ...customWeights, [factor]: Math.max(0, Number(e.target.value)) } })
+                  }
+                  className="w-20 px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+                />
+              </label>
+            ))}
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+              Weights are relative and don't need to add up to 1.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium">Task detection</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Embeddings understand prompts better than keywords, but use your Gemini or OpenAI key for one extra
+            request per message. Keywords are used when neither is available.
+          </div>
+        </div>
+        <select
+          value={classifier}
+          onChange={(e) => updateRouting({ classifier: e.target.value as TaskClassifierId })}
+          className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          <option value="keywords">Keywords</option>
+          <option value="embeddings">Embeddings</option>
+        </select>
+      </div>
+
+      <label className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={failoverEnabled}
+          onChange={(e) => updateRouting({ failoverEnabled: e.target.checked })}
+          className="mt-1"
+        />
+        <div>
+          <div className="text-sm font-medium">Fail over to another provider</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            When a provider is rate limited or unavailable, the request is sent to the next enabled provider
+            in the chain that has an API key, using a model of a similar tier.
+          </div>
+        </div>
+      </label>
+
+      {failoverEnabled && (
+        <div className="space-y-3">
+          {chainKeys.map(key => {
+            const chain = failoverChains[key] || [];
+            const available = providers.filter(p => !chain.includes(p.id));
+
+            const move = (index: number, offset: number) => {
+              const next = [...chain];
+              [next[index], next[index + offset]] = [next[index + offset], next[index]];
+              setChain(key, next);
+            };
+
+            return (
+              <div key={key} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">{chainLabels[key]}</span>
+                  {key !== 'default' && (
+                    <button
+                      onClick={() => setChain(key, [])}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      title="Use the default chain"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {chain.map((provider, index) => (
+                    <div
+                      key={provider}
+                      className="flex items-center space-x-1 pl-2 pr-1 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <span className="text-xs text-gray-400">{index + 1}.</span>
+                      <span>{getProviderName(provider)}</span>
+                      <button
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0}
+                        className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                        title="Move earlier"
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => move(index, 1)}
+                        disabled={index === chain.length - 1}
+                        className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                        title="Move later"
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => setChain(key, chain.filter(p => p !== provider))}
+                        className="p-0.5 text-gray-400 hover:text-red-500"
+                        title="Remove"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+
+                  {available.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => setChain(key, [...chain, e.target.value])}
+                      className="px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <option value="">Add provider…</option>
+                      {available.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {unusedKeys.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Plus className="w-4 h-4 text-gray-400" />
+              <select
+                value=""
+                onChange={(e) => {
+                  const key = e.target.value as ChainKey;
+                  setChain(key, [...(failoverChains.default || [])]);
+                }}
+                className="px-3 py-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+              >
+                <option value="">Add a chain for a task type…</option>
+                {unusedKeys.map(key => (
+                  <option key={key} value={key}>{chainLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <AnswerJudgeSettings
+        judge={settings.routing.judge}
+        onChange={(judge) => updateRouting({ judge })}
+      />
+
+      <LearnedPreferences getProviderName={getProviderName} />
+
+      <MeasuredPerformance />
+    </div>
+  );
+};
+
+interface AnswerJudgeSettingsProps {
+  judge: JudgeSettings;
+  onChange: (judge: JudgeSettings) => void;
+}
+
+// Model and rubric used to judge answers in comparison mode
+const AnswerJudgeSettings: React.FC<AnswerJudgeSettingsProps> = ({ judge, onChange }) => {
+  const { providers } = useExtensionStore();
+  const [rubric, setRubric] = useState(judge.rubric.join(', '));
+
+  useEffect(() => {
+    setRubric(judge.rubric.join(', '));
+  }, [judge.rubric]);
+
+  // Commit on blur so typing a comma doesn't get swallowed
+  const commitRubric = () => {
+    const criteria = rubric.split(',').map(c => c.trim()).filter(Boolean);
+    if (criteria.length > 0) {
+      onChange({ ...judge, rubric: criteria });
+    } else {
+      setRubric(judge.rubric.join(', '));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-medium">Answer judge</h3>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          In comparison mode, this model scores each answer, points out where they disagree and writes a
+          merged answer.
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={judge.provider}
+          onChange={(e) => onChange({ ...judge, provider: e.target.value, model: undefined })}
+          className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          {providers.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select
+          value={judge.model || ''}
+          onChange={(e) => onChange({ ...judge, model: e.target.value || undefined })}
+          className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          <option value="">Configured model</option>
+          {providers.find(p => p.id === judge.provider)?.models.map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-gray-500 dark:text-gray-400">Rubric, comma separated</span>
+        <input
+          type="text"
+          value={rubric}
+          onChange={(e) => setRubric(e.target.value)}
+          onBlur={commitRubric}
+          className="mt-1 w-full px-3 py-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        />
+      </label>
+
+      <label className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={judge.learnFromVerdicts}
+          onChange={(e) => onChange({ ...judge, learnFromVerdicts: e.target.checked })}
+          className="mt-1"
+        />
+        <div>
+          <div className="text-sm font-medium">Learn from verdicts</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            The judge's winner is favoured for that task type when routing automatically, and clearly weaker
+            answers count against their provider.
+          </div>
+        </div>
+      </label>
+    </div>
+  );
+};
+
+const formatSeconds = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`);
+
+// Latency, throughput and errors measured over each model's recent requests.
+// The router uses these in place of the built-in estimates.
+const MeasuredPerformance: React.FC = () => {
+  const [metrics, setMetrics] = useState<Record<string, MeasuredMetrics>>({});
+
+  const refresh = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_METRICS' });
+    setMetrics(response || {});
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleReset = async () => {
+    await chrome.runtime.sendMessage({ type: 'RESET_METRICS' });
+    refresh();
+  };
+
+  const models = Object.entries(metrics).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Measured performance</h3>
+        {models.length > 0 && (
+          <button
+            onClick={handleReset}
+            className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-red-500 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      {models.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Nothing measured yet. Speed and reliability are estimated until each model has answered a few requests.
+        </p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1">Model</th>
+              <th>Requests</th>
+              <th>Latency p50 / p95</th>
+              <th>First token p50</th>
+              <th>Tokens/s</th>
+              <th>Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(([key, m]) => (
+              <tr key={key}>
+                <td className="py-1">{key}</td>
+                <td>{m.requests}</td>
+                <td>{formatSeconds(m.latency?.p50)} / {formatSeconds(m.latency?.p95)}</td>
+                <td>{formatSeconds(m.timeToFirstToken?.p50)}</td>
+                <td>{m.tokensPerSecond ? Math.round(m.tokensPerSecond.p50) : '–'}</td>
+                <td title={Object.entries(m.errorsByCode).map(([code, count]) => `${code}: ${count}`).join(', ')}>
+                  {Math.round((1 - m.successRate) * 100)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+interface LearnedPreferencesProps {
+  getProviderName: (id: AIProvider) => string;
+}
+
+// What the router has learned from feedback. Scores fade over time, so
+// old feedback matters less than recent feedback.
+const LearnedPreferences: React.FC<LearnedPreferencesProps> = ({ getProviderName }) => {
+  const [preferences, setPreferences] = useState<RoutingPreferences>({});
+
+  const refresh = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_ROUTING_PREFERENCES' });
+    setPreferences(response || {});
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleReset = async (taskType?: TaskType) => {
+    await chrome.runtime.sendMessage({ type: 'RESET_ROUTING_PREFERENCES', payload: { taskType } });
+    refresh();
+  };
+
+  const taskTypes = (Object.keys(preferences) as TaskType[]).filter(
+    taskType => Object.keys(preferences[taskType] || {}).length > 0
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Learned preferences</h3>
+        {taskTypes.length > 0 && (
+          <button
+            onClick={() => handleReset()}
+            className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-red-500 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset all</span>
+          </button>
+        )}
+      </div>
+
+      {taskTypes.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Rate answers, regenerate them with another AI or switch away from an automatic choice, and the
+          router will learn which provider you prefer for each kind of task.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {taskTypes.map(taskType => {
+            const scores = Object.entries(preferences[taskType] || {}).sort(([, a], [, b]) => b.score - a.score);
+
+            return (
+              <div key={taskType} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                <div>
+                  <div className="text-sm font-medium">{chainLabels[taskType]}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {scores
+                      .map(([provider, preference]) =>
+                        `${getProviderName(provider)} ${preference.score >= 0 ? '+' : ''}${preference.score.toFixed(1)}`
+                      )
+                      .join(' · ')}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleReset(taskType)}
+                  className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Reset"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, AlertCircle, Check } from 'lucide-react';
+import { VaultStatus } from '@/types/storage';
+import { useExtensionStore } from '@/stores/extensionStore';
+import { VaultUnlock } from '@/components/VaultUnlock';
+
+const autoLockOptions = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 240, label: '4 hours' },
+  { value: 0, label: 'Until the browser closes' },
+];
+
+export const SecuritySettings: React.FC = () => {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const { settings, updateSettings } = useExtensionStore();
+
+  const refreshStatus = async () => {
+    const vaultStatus = await chrome.runtime.sendMessage({ type: 'GET_VAULT_STATUS' });
+    setStatus(vaultStatus);
+  };
+
+  useEffect(() => {
+    refreshStatus();
+  }, []);
+
+  const handleLock = async () => {
+    await chrome.runtime.sendMessage({ type: 'LOCK_VAULT' });
+    refreshStatus();
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    if (!settings) return;
+    updateSettings({ privacy: { ...settings.privacy, autoLockMinutes: minutes } });
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Vault Status */}
+      <div>
+        <h3 className="text-sm font-medium mb-2">Master password</h3>
+        {status.locked ? (
+          <VaultUnlock onUnlocked={refreshStatus} />
+        ) : (
+          <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+            <div className="flex items-center space-x-2 text-sm text-green-600 dark:text-green-400">
+              <Unlock className="w-4 h-4" />
+              <span>API keys are unlocked for this session</span>
+            </div>
+            <button
+              onClick={handleLock}
+              className="flex items-center space-x-2 py-1.5 px-3 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Lock className="w-4 h-4" />
+              <span>Lock now</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Change Password */}
+      {status.initialized && <ChangePasswordForm onChanged={refreshStatus} />}
+
+      {/* Auto-lock */}
+      <div>
+        <label className="block text-sm font-medium mb-2">Auto-lock after inactivity</label>
+        <select
+          value={settings?.privacy.autoLockMinutes ?? status.autoLockMinutes}
+          onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+          className="w-64 px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg"
+        >
+          {autoLockOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Page tools */}
+      {settings && (
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={settings.privacy.pageTools}
+            onChange={(e) => updateSettings({ privacy: { ...settings.privacy, pageTools: e.target.checked } })}
+            className="mt-1"
+          />
+          <div>
+            <div className="text-sm font-medium">Let AIs read the page when they need to</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Models that support tools can look up the headings, tables, links and code blocks on the page you
+              are asking from. Never on excluded domains, in sensitive mode or with context sharing off.
+            </div>
+          </div>
+        </label>
+      )}
+    </div>
+  );
+};
+
+const ChangePasswordForm: React.FC<{ onChanged: () => void }> = ({ onChanged }) => {
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccess(false);
+
+    const response = await chrome.runtime.sendMessage({
+      type: 'CHANGE_MASTER_PASSWORD',
+      payload: { oldPassword, newPassword },
+    });
+
+    setIsSubmitting(false);
+
+    if (response?.error) {
+      setError(response.error);
+      return;
+    }
+
+    setOldPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setSuccess(true);
+    onChanged();
+  };
+
+  const inputClassName = 'w-64 block px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <h3 className="text-sm font-medium mb-2">Change master password</h3>
+      <input
+        type="password"
+        value={oldPassword}
+        onChange={(e) => setOldPassword(e.target.value)}
+        placeholder="Current password"
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        value={newPassword}
+        onChange={(e) => setNewPassword(e.target.value)}
+        placeholder="New password"
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        value={confirmPassword}
+        onChange={(e) => setConfirmPassword(e.target.value)}
+        placeholder="Confirm new password"
+        className={inputClassName}
+      />
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+      {success && (
+        <div className="flex items-center space-x-2 text-sm text-green-600 dark:text-green-400">
+          <Check className="w-4 h-4" />
+          <span>Master password changed and API keys re-encrypted</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={!oldPassword || !newPassword || isSubmitting}
+        className="py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSubmitting ? 'Re-encrypting keys...' : 'Change password'}
+      </button>
+    </form>
+  );
+};
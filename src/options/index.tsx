@@ -0,0 +1,19 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { Options } from './Options';
+import { loadCustomProviders } from '@/services/customEndpoint';
+import '../styles/global.css';
+
+loadCustomProviders();
+
+// Initialize React root
+const root = ReactDOM.createRoot(
+  document.getElementById('root') as HTMLElement
+);
+
+// Render options page
+root.render(
+  <React.StrictMode>
+    <Options />
+  </React.StrictMode>
+);
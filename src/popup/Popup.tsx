@@ -14,6 +14,7 @@ import { AIProvider } from '@/types/ai';
 import { ProviderSelector } from '@/components/ProviderSelector';
 import { useExtensionStore } from '@/stores/extensionStore';
 import { CostCalculator } from '@/utils/costCalculator';
+import providerRegistry from '@/services/providerRegistry';
 
 export const Popup: React.FC = () => {
   const [selectedProvider, setSelectedProvider] = useState<AIProvider>('claude');
@@ -156,7 +157,7 @@ export const Popup: React.FC = () => {
               disabled={!quickPrompt.trim()}
               className="flex-1 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              Ask {selectedProvider.charAt(0).toUpperCase() + selectedProvider.slice(1)}
+              Ask {providerRegistry.get(selectedProvider)?.name || selectedProvider}
             </button>
             <button
               onClick={handleOpenSidebar}
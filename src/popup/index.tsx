@@ -1,8 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { Popup } from './Popup';
+import { loadCustomProviders } from '@/services/customEndpoint';
 import '../styles/global.css';
 
+loadCustomProviders();
+
 // Initialize React root
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -1,10 +1,103 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { AIRequest, AIResponse, StreamChunk, AIMessage } from '@/types/ai';
-
-export class ClaudeAPI {
+import { AIRequest, AIResponse, StreamChunk, AIMessage, AIModel, JSONSchema, ReasoningEffort } from '@/types/ai';
+import { ProviderAdapter, ProviderAdapterConfig, ProviderDefinition, RateLimitStatus } from '@/types/provider';
+import { ProviderHTTPError, getHTTPErrorDetails, describeError } from './apiError';
+import { RateLimitTracker } from './rateLimit';
+import { SSEParser, readStream } from '@/utils/streamParser';
+import { AnthropicToolCallStream, parseAnthropicToolCalls, toAnthropicContent, toAnthropicTools } from './toolFormat';
+
+const claudeModels: AIModel[] = [
+  {
+    provider: 'claude',
+    id: 'claude-3-7-sonnet-20250219',
+    name: 'Claude 3.7 Sonnet',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.003, output: 0.015 },
+    capabilities: ['text', 'vision', 'tools', 'reasoning'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'claude',
+    id: 'claude-3-opus-20240229',
+    name: 'Claude 3 Opus',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.015, output: 0.075 },
+    capabilities: ['text', 'vision', 'tools'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'claude',
+    id: 'claude-3-sonnet-20240229',
+    name: 'Claude 3 Sonnet',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.003, output: 0.015 },
+    capabilities: ['text', 'vision', 'tools'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'claude',
+    id: 'claude-3-haiku-20240307',
+    name: 'Claude 3 Haiku',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.00025, output: 0.00125 },
+    capabilities: ['text', 'vision', 'tools'],
+    streaming: true,
+    tier: 'low',
+  },
+  {
+    provider: 'claude',
+    id: 'claude-2.1',
+    name: 'Claude 2.1',
+    maxTokens: 100000,
+    costPer1kTokens: { input: 0.008, output: 0.024 },
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'medium',
+    legacy: true,
+  },
+  {
+    provider: 'claude',
+    id: 'claude-2.0',
+    name: 'Claude 2.0',
+    maxTokens: 100000,
+    costPer1kTokens: { input: 0.008, output: 0.024 },
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'medium',
+    legacy: true,
+  },
+  {
+    provider: 'claude',
+    id: 'claude-instant-1.2',
+    name: 'Claude Instant 1.2',
+    maxTokens: 100000,
+    costPer1kTokens: { input: 0.0008, output: 0.0024 },
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'low',
+    legacy: true,
+  },
+];
+
+// Claude has no JSON mode, so structured answers are requested by forcing a
+// call to this tool with the answer as its input
+const STRUCTURED_OUTPUT_TOOL = 'structured_output';
+
+// Extended thinking budget for each effort. Claude needs at least 1024.
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+export class ClaudeAPI implements ProviderAdapter {
   private client: AxiosInstance;
   private apiKey: string = '';
   private config: any = {};
+  private rateLimits = new RateLimitTracker();
 
   constructor() {
     this.client = axios.create({
@@ -14,9 +107,15 @@ export class ClaudeAPI {
         'anthropic-version': '2023-06-01',
       },
     });
+
+    // Every response carries the provider's current rate limits
+    this.client.interceptors.response.use(response => {
+      this.rateLimits.update(response.headers);
+      return response;
+    });
   }
 
-  configure(config: { apiKey: string; [key: string]: any }): void {
+  configure(config: ProviderAdapterConfig): void {
     this.apiKey = config.apiKey;
     this.config = config;
 
@@ -59,60 +158,75 @@ export class ClaudeAPI {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await ProviderHTTPError.fromResponse(response);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      this.rateLimits.update(response.headers);
+
       let fullContent = '';
+      let reasoning = '';
+      let reasoningSignature = '';
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      const toolCalls = new AnthropicToolCallStream();
+
+      await readStream(response, new SSEParser(), event => {
+        if (event.data === '[DONE]') return;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(event.data);
+        } catch (e) {
+          // Skip events that are not JSON
+          return;
+        }
 
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+        toolCalls.push(parsed);
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-
-              if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-                fullContent += parsed.delta.text;
-                onChunk({
-                  delta: parsed.delta.text,
-                  finished: false,
-                  provider: 'claude',
-                  model: request.model || 'claude-3-sonnet-20240229',
-                });
-              } else if (parsed.type === 'message_stop') {
-                onChunk({
-                  delta: '',
-                  finished: true,
-                  provider: 'claude',
-                  model: request.model || 'claude-3-sonnet-20240229',
-                });
-              }
-            } catch (e) {
-              // Ignore parsing errors for incomplete chunks
-            }
-          }
+        if (parsed.type === 'message_start') {
+          inputTokens = parsed.message?.usage?.input_tokens;
+        } else if (parsed.type === 'message_delta' && parsed.usage) {
+          outputTokens = parsed.usage.output_tokens;
         }
-      }
+
+        if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'thinking_delta') {
+          reasoning += parsed.delta.thinking || '';
+          onChunk({
+            delta: parsed.delta.thinking || '',
+            kind: 'reasoning',
+            finished: false,
+            provider: 'claude',
+            model: request.model || 'claude-3-sonnet-20240229',
+          });
+        } else if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'signature_delta') {
+          reasoningSignature += parsed.delta.signature || '';
+        } else if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
+          fullContent += parsed.delta.text;
+          onChunk({
+            delta: parsed.delta.text,
+            finished: false,
+            provider: 'claude',
+            model: request.model || 'claude-3-sonnet-20240229',
+          });
+        } else if (parsed.type === 'message_stop') {
+          onChunk({
+            delta: '',
+            finished: true,
+            provider: 'claude',
+            model: request.model || 'claude-3-sonnet-20240229',
+          });
+        }
+      });
 
       return {
         provider: 'claude',
         model: request.model || 'claude-3-sonnet-20240229',
         content: fullContent,
         streaming: true,
+        toolCalls: toolCalls.getCalls(),
+        ...this.getUsage(request.model || 'claude-3-sonnet-20240229', inputTokens, outputTokens, reasoning),
+        reasoning: reasoning || undefined,
+        reasoningSignature: reasoningSignature || undefined,
       };
     } catch (error) {
       return this.handleError(error as Error, request);
@@ -134,14 +248,7 @@ export class ClaudeAPI {
 
   async getModels(): Promise<string[]> {
     // Claude doesn't have a models endpoint, so we return known models
-    return [
-      'claude-3-opus-20240229',
-      'claude-3-sonnet-20240229',
-      'claude-3-haiku-20240307',
-      'claude-2.1',
-      'claude-2.0',
-      'claude-instant-1.2',
-    ];
+    return claudeModels.map(model => model.id);
   }
 
   estimateTokens(text: string): number {
@@ -150,19 +257,17 @@ export class ClaudeAPI {
   }
 
   calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const costs: Record<string, { input: number; output: number }> = {
-      'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
-      'claude-3-sonnet-20240229': { input: 0.003, output: 0.015 },
-      'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
-      'claude-2.1': { input: 0.008, output: 0.024 },
-      'claude-2.0': { input: 0.008, output: 0.024 },
-      'claude-instant-1.2': { input: 0.0008, output: 0.0024 },
-    };
+    const modelInfo = claudeModels.find(m => m.id === model) ||
+      claudeModels.find(m => m.id === 'claude-3-sonnet-20240229')!;
 
-    const modelCost = costs[model] || costs['claude-3-sonnet-20240229'];
+    const modelCost = modelInfo.costPer1kTokens;
     return (inputTokens * modelCost.input + outputTokens * modelCost.output) / 1000;
   }
 
+  async getRateLimitStatus(): Promise<RateLimitStatus> {
+    return this.rateLimits.getStatus();
+  }
+
   private transformRequest(request: AIRequest): any {
     const messages = this.transformMessages(request.messages);
 
@@ -172,12 +277,22 @@ export class ClaudeAPI {
       max_tokens: request.maxTokens || 4000,
     };
 
-    // Add optional parameters
-    if (request.temperature !== undefined) {
+    const model = claudeModels.find(m => m.id === claudeRequest.model);
+    const thinking = request.reasoning && model?.capabilities.includes('reasoning');
+
+    if (thinking) {
+      // The budget comes out of max_tokens, so add it on top of the answer's
+      const budget = Math.max(1024, request.reasoning!.budgetTokens || THINKING_BUDGETS[request.reasoning!.effort]);
+      claudeRequest.thinking = { type: 'enabled', budget_tokens: budget };
+      claudeRequest.max_tokens += budget;
+    }
+
+    // Add optional parameters. Thinking only works with the default sampling.
+    if (request.temperature !== undefined && !thinking) {
       claudeRequest.temperature = request.temperature;
     }
 
-    if (request.topP !== undefined) {
+    if (request.topP !== undefined && !thinking) {
       claudeRequest.top_p = request.topP;
     }
 
@@ -185,6 +300,24 @@ export class ClaudeAPI {
       claudeRequest.system = request.systemPrompt;
     }
 
+    if (request.tools?.length) {
+      claudeRequest.tools = toAnthropicTools(request.tools);
+    }
+
+    // Thinking can't be combined with forcing a tool; the schema instruction
+    // in the system prompt covers it then
+    if (request.responseSchema && model?.capabilities.includes('tools') && !thinking) {
+      claudeRequest.tools = [
+        ...(claudeRequest.tools || []),
+        {
+          name: STRUCTURED_OUTPUT_TOOL,
+          description: 'Give your answer in the required structure',
+          input_schema: this.getInputSchema(request.responseSchema),
+        },
+      ];
+      claudeRequest.tool_choice = { type: 'tool', name: STRUCTURED_OUTPUT_TOOL };
+    }
+
     // Add context if available
     if (request.context) {
       const contextMessage = this.buildContextMessage(request.context);
@@ -196,10 +329,17 @@ export class ClaudeAPI {
     return claudeRequest;
   }
 
+  // Tool input must be an object, so other schemas are wrapped in one
+  private getInputSchema(schema: JSONSchema): JSONSchema {
+    return schema.type === 'object'
+      ? schema
+      : { type: 'object', properties: { value: schema }, required: ['value'] };
+  }
+
   private transformMessages(messages: AIMessage[]): any[] {
     return messages.map(msg => ({
       role: msg.role === 'system' ? 'assistant' : msg.role,
-      content: msg.content,
+      content: toAnthropicContent(msg),
     }));
   }
 
@@ -231,32 +371,64 @@ export class ClaudeAPI {
   }
 
   private transformResponse(response: any, request: AIRequest): AIResponse {
-    const content = response.content?.[0]?.text || '';
+    const blocks: any[] = response.content || [];
+    const structured = blocks.find(block => block.type === 'tool_use' && block.name === STRUCTURED_OUTPUT_TOOL);
+
+    // Tool use responses can mix text and tool_use blocks
+    const content = structured
+      ? JSON.stringify(request.responseSchema?.type === 'object' ? structured.input : structured.input?.value)
+      : blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+
+    const thinking = blocks.filter(block => block.type === 'thinking');
+    const reasoning = thinking.map(block => block.thinking).join('\n\n');
 
     return {
       provider: 'claude',
       model: response.model || request.model || 'claude-3-sonnet-20240229',
       content,
-      usage: response.usage ? {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
-      } : undefined,
-      cost: response.usage ?
-        this.calculateCost(
-          response.model || request.model || 'claude-3-sonnet-20240229',
-          response.usage.input_tokens,
-          response.usage.output_tokens
-        ) : undefined,
+      ...this.getUsage(
+        response.model || request.model || 'claude-3-sonnet-20240229',
+        response.usage?.input_tokens,
+        response.usage?.output_tokens,
+        reasoning
+      ),
+      toolCalls: parseAnthropicToolCalls(blocks.filter(block => block !== structured)),
+      reasoning: reasoning || undefined,
+      reasoningSignature: thinking[thinking.length - 1]?.signature,
+    };
+  }
+
+  // Claude counts thinking as output without breaking it out, so the
+  // reasoning share is estimated from the thinking text
+  private getUsage(
+    model: string,
+    inputTokens: number | undefined,
+    outputTokens: number | undefined,
+    reasoning: string
+  ): Pick<AIResponse, 'usage' | 'cost' | 'reasoningCost'> {
+    if (inputTokens === undefined || outputTokens === undefined) return {};
+
+    const reasoningTokens = reasoning ? Math.min(outputTokens, this.estimateTokens(reasoning)) : undefined;
+    return {
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        reasoningTokens,
+      },
+      cost: this.calculateCost(model, inputTokens, outputTokens),
+      reasoningCost: reasoningTokens !== undefined ? this.calculateCost(model, 0, reasoningTokens) : undefined,
     };
   }
 
   private handleError(error: AxiosError | Error, request: AIRequest): AIResponse {
     let errorMessage = 'Unknown error occurred';
 
-    if ('response' in error && error.response) {
-      const status = error.response.status;
-      const data: any = error.response.data;
+    const details = getHTTPErrorDetails(error);
+
+    if (details) {
+      this.rateLimits.update(details.headers, details.status);
+      const { status, data } = details;
 
       switch (status) {
         case 401:
@@ -268,6 +440,7 @@ export class ClaudeAPI {
         case 500:
         case 502:
         case 503:
+        case 529:
           errorMessage = 'Claude API is temporarily unavailable';
           break;
         default:
@@ -282,6 +455,53 @@ export class ClaudeAPI {
       model: request.model || 'claude-3-sonnet-20240229',
       content: '',
       error: errorMessage,
+      ...describeError(error),
     };
   }
-}
\ No newline at end of file
+}
+
+export const claudeProvider: ProviderDefinition = {
+  id: 'claude',
+  name: 'Claude',
+  description: 'Best for creative writing & analysis',
+  icon: 'sparkles',
+  color: 'from-amber-500 to-orange-600',
+  models: claudeModels,
+  defaultModel: 'claude-3-sonnet-20240229',
+  taskStrengths: {
+    creative_writing: 1.0,
+    analysis: 1.0,
+    reasoning: 1.0,
+    code_generation: 0.8,
+    debugging: 0.7,
+    technical_docs: 0.8,
+    research: 0.6,
+    real_time_info: 0.3,
+    translation: 0.8,
+    summarization: 0.9,
+    casual_chat: 0.8,
+    data_extraction: 0.7,
+  },
+  defaultMetrics: { avgResponseTime: 2000, successRate: 0.98 },
+  routingRules: [
+    {
+      id: 'claude-creative',
+      name: 'Claude for Creative Writing',
+      pattern: /write|story|creative|poem|narrative|essay|article/i,
+      provider: 'claude',
+      model: 'claude-3-opus-20240229',
+      priority: 10,
+      taskTypes: ['creative_writing'],
+    },
+    {
+      id: 'claude-analysis',
+      name: 'Claude for Analysis',
+      pattern: /analyze|analysis|reasoning|explain|understand|complex/i,
+      provider: 'claude',
+      priority: 10,
+      taskTypes: ['analysis', 'reasoning'],
+    },
+  ],
+  apiKeyPattern: /^sk-ant-api03-[\w-]{93,}$/,
+  createAdapter: () => new ClaudeAPI(),
+};
@@ -0,0 +1,54 @@
+import { ProviderHTTPError, describeError } from './apiError';
+
+// A day from now, as Anthropic formats reset times
+const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+describe('describeError', () => {
+  it('ignores reset headers on a 5xx so it is retried with backoff', () => {
+    const error = new ProviderHTTPError(503, {
+      'retry-after': '30',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '6m0s',
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': tomorrow(),
+    });
+
+    expect(describeError(error)).toEqual({ errorCode: 'overloaded', retryAfter: undefined });
+  });
+
+  it('uses Retry-After on a 429', () => {
+    const error = new ProviderHTTPError(429, { 'retry-after': '12' });
+
+    expect(describeError(error)).toEqual({ errorCode: 'rate_limited', retryAfter: 12000 });
+  });
+
+  it('waits only for exhausted windows on a 429', () => {
+    const error = new ProviderHTTPError(429, {
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1.5s',
+      'x-ratelimit-remaining-tokens': '40000',
+      'x-ratelimit-reset-tokens': '6m0s',
+    });
+
+    expect(describeError(error).retryAfter).toBe(1500);
+  });
+
+  it('ignores a daily Anthropic window that still has room on a 429', () => {
+    const error = new ProviderHTTPError(429, {
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': new Date(Date.now() + 10000).toISOString(),
+      'anthropic-ratelimit-tokens-remaining': '5000',
+      'anthropic-ratelimit-tokens-reset': tomorrow(),
+    });
+
+    const { retryAfter } = describeError(error);
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(10000);
+  });
+
+  it('has no hint when a 429 carries no usable headers', () => {
+    const error = new ProviderHTTPError(429, { 'x-ratelimit-reset-tokens': '6m0s' });
+
+    expect(describeError(error).retryAfter).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { AxiosError } from 'axios';
+import { AIErrorCode, AIResponse } from '@/types/ai';
+import { normalizeHeaders, getRetryAfter } from './rateLimit';
+
+const RETRYABLE_ERRORS: AIErrorCode[] = [
+  'rate_limited',
+  'overloaded',
+  'server_error',
+  'timeout',
+  'network_error',
+];
+
+/**
+ * Non-2xx response from a fetch call, carrying what the retry logic needs
+ */
+export class ProviderHTTPError extends Error {
+  constructor(
+    public status: number,
+    public headers: Record<string, string>,
+    public data?: any
+  ) {
+    super(data?.error?.message || `HTTP ${status} error`);
+    this.name = 'ProviderHTTPError';
+  }
+
+  static async fromResponse(response: Response): Promise<ProviderHTTPError> {
+    const headers = normalizeHeaders(response.headers);
+    const data = await response.json().catch(() => undefined);
+    return new ProviderHTTPError(response.status, headers, data);
+  }
+}
+
+export interface HTTPErrorDetails {
+  status: number;
+  headers: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * Get the status, headers and body from an axios or fetch error
+ */
+export function getHTTPErrorDetails(error: AxiosError | Error): HTTPErrorDetails | null {
+  if (error instanceof ProviderHTTPError) {
+    return { status: error.status, headers: error.headers, data: error.data };
+  }
+
+  if ('response' in error && error.response) {
+    const headers = normalizeHeaders(error.response.headers);
+    return { status: error.response.status, headers, data: error.response.data };
+  }
+
+  return null;
+}
+
+/**
+ * Classify an error so callers can decide whether to retry it
+ */
+export function classifyError(error: AxiosError | Error): AIErrorCode {
+  const details = getHTTPErrorDetails(error);
+
+  if (details) {
+    const { status } = details;
+    if (status === 429) return 'rate_limited';
+    if (status === 503 || status === 529) return 'overloaded';
+    if (status === 408) return 'timeout';
+    if (status === 401 || status === 403) return 'auth_error';
+    if (status >= 500) return 'server_error';
+    return 'bad_request';
+  }
+
+  if (error.name === 'AbortError' || error.name === 'CanceledError') return 'cancelled';
+  if ('code' in error && error.code === 'ECONNABORTED') return 'timeout';
+
+  // fetch rejects with a TypeError and axios with ERR_NETWORK when offline
+  if (error.name === 'TypeError' || ('code' in error && error.code === 'ERR_NETWORK')) {
+    return 'network_error';
+  }
+
+  return 'unknown';
+}
+
+export function isRetryableError(code?: AIErrorCode): boolean {
+  return !!code && RETRYABLE_ERRORS.includes(code);
+}
+
+/**
+ * Error code and retry hint for an AIResponse built from a failed request.
+ * Only rate limits carry a hint; other failures use exponential backoff.
+ */
+export function describeError(error: AxiosError | Error): Pick<AIResponse, 'errorCode' | 'retryAfter'> {
+  const details = getHTTPErrorDetails(error);
+
+  return {
+    errorCode: classifyError(error),
+    retryAfter: details?.status === 429 ? getRetryAfter(details.headers) : undefined,
+  };
+}
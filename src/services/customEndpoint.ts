@@ -0,0 +1,138 @@
+import { AIModel, TaskType } from '@/types/ai';
+import { CustomProviderConfig, ProviderDefinition } from '@/types/provider';
+import { ChatGPTAPI } from './openai';
+import providerRegistry from './providerRegistry';
+import storageService from './storage';
+
+const taskTypes: TaskType[] = [
+  'creative_writing',
+  'analysis',
+  'reasoning',
+  'code_generation',
+  'debugging',
+  'technical_docs',
+  'research',
+  'real_time_info',
+  'translation',
+  'summarization',
+  'casual_chat',
+  'data_extraction',
+];
+
+/**
+ * Client for self-hosted servers exposing an OpenAI-compatible API
+ * (Ollama, LM Studio, vLLM, LiteLLM, ...)
+ */
+export class CustomEndpointAPI extends ChatGPTAPI {
+  private endpoint: CustomProviderConfig;
+
+  constructor(endpoint: CustomProviderConfig) {
+    super();
+    this.endpoint = endpoint;
+    this.provider = endpoint.id;
+    this.serviceName = endpoint.name;
+    this.models = toModels(endpoint);
+    this.defaultModel = endpoint.defaultModel;
+    // Older Ollama, vLLM and LM Studio answer stream_options with a 400
+    this.streamUsage = false;
+    this.setBaseUrl(endpoint.baseUrl);
+  }
+
+  protected getRequestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
+
+    if (this.apiKey) {
+      const name = this.endpoint.authHeader || 'Authorization';
+      headers[name] = name === 'Authorization' ? `Bearer ${this.apiKey}` : this.apiKey;
+    }
+
+    return headers;
+  }
+
+  async getModels(): Promise<string[]> {
+    // Local servers list whatever they have loaded, so don't filter by name
+    const response = await this.client.get('/models');
+    return (response.data?.data || []).map((model: any) => model.id);
+  }
+
+  calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const { pricing } = this.endpoint;
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1000;
+  }
+}
+
+function toModels(config: CustomProviderConfig): AIModel[] {
+  return config.models.map(id => ({
+    provider: config.id,
+    id,
+    name: id,
+    maxTokens: config.contextWindow,
+    costPer1kTokens: config.pricing,
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'low',
+  }));
+}
+
+/**
+ * Build a registry definition for a user-defined endpoint
+ */
+export function createCustomProvider(config: CustomProviderConfig): ProviderDefinition {
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.baseUrl,
+    icon: 'server',
+    color: 'from-gray-500 to-slate-600',
+    models: toModels(config),
+    defaultModel: config.defaultModel,
+    // No routing hints for unknown models, so they compete on cost and speed
+    taskStrengths: Object.fromEntries(taskTypes.map(type => [type, 0.7])) as Record<TaskType, number>,
+    defaultMetrics: { avgResponseTime: 2000, successRate: 0.95 },
+    routingRules: [],
+    requiresApiKey: config.requiresApiKey,
+    custom: true,
+    createAdapter: () => new CustomEndpointAPI(config),
+  };
+}
+
+/**
+ * Replace the registered custom providers with the given configs
+ */
+export function registerCustomProviders(configs: CustomProviderConfig[]): void {
+  const ids = new Set(configs.map(config => config.id));
+
+  providerRegistry.list()
+    .filter(definition => definition.custom && !ids.has(definition.id))
+    .forEach(definition => providerRegistry.unregister(definition.id));
+
+  configs.forEach(config => providerRegistry.register(createCustomProvider(config)));
+}
+
+/**
+ * Register the custom providers from settings and keep them in sync when
+ * settings change in any extension context
+ */
+export async function loadCustomProviders(onChange?: () => void): Promise<void> {
+  const settings = await storageService.getSettings();
+  registerCustomProviders(settings.customProviders);
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' || !changes.settings) return;
+
+    const previous = JSON.stringify(changes.settings.oldValue?.customProviders || []);
+    const current = changes.settings.newValue?.customProviders || [];
+    if (previous === JSON.stringify(current)) return;
+
+    registerCustomProviders(current);
+    onChange?.();
+  });
+}
+
+/**
+ * Host permission pattern covering a custom endpoint, including its port
+ */
+export function getOriginPattern(baseUrl: string): string {
+  const url = new URL(baseUrl);
+  return `${url.protocol}//${url.host}/*`;
+}
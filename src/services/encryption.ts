@@ -1,4 +1,5 @@
 import { EncryptedData } from '@/types/storage';
+import providerRegistry from './providerRegistry';
 
 export class EncryptionService {
   private static instance: EncryptionService;
@@ -89,6 +90,39 @@ export class EncryptionService {
     );
   }
 
+  /**
+   * Derive a hex-encoded secret from a password using PBKDF2
+   */
+  async deriveSecret(password: string, salt: string): Promise<string> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      this.encoder.encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        salt: this.base64ToBuffer(salt),
+        iterations: 100000,
+        hash: 'SHA-256',
+      },
+      keyMaterial,
+      256
+    );
+
+    return this.bufferToHex(bits);
+  }
+
+  /**
+   * Generate a random base64-encoded salt
+   */
+  generateSalt(): string {
+    return this.bufferToBase64(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  }
+
   /**
    * Generate a SHA-256 hash of the input text
    */
@@ -189,14 +223,7 @@ export class EncryptionService {
    * Validate API key format for different providers
    */
   validateAPIKeyFormat(key: string, provider: string): boolean {
-    const patterns: Record<string, RegExp> = {
-      claude: /^sk-ant-api03-[\w-]{93,}$/,
-      chatgpt: /^sk-[\w]{48,}$/,
-      gemini: /^[\w-]{39,}$/,
-      grok: /^[\w-]{40,}$/,
-    };
-
-    const pattern = patterns[provider];
+    const pattern = providerRegistry.get(provider)?.apiKeyPattern;
     return pattern ? pattern.test(key) : true;
   }
 
@@ -0,0 +1,64 @@
+import { GeminiAPI } from './google';
+import { AIRequest, JSONSchema } from '@/types/ai';
+
+const schema: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    price: { type: ['number', 'null'] },
+  },
+  required: ['name'],
+};
+
+const reply = {
+  candidates: [{ content: { parts: [{ text: '{"name":"Lamp","price":null}' }] }, finishReason: 'STOP' }],
+  usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 8, totalTokenCount: 18 },
+};
+
+// The body the adapter posts for a request
+async function sentBody(request: Partial<AIRequest>): Promise<any> {
+  const api = new GeminiAPI();
+  api.configure({ apiKey: 'test-key' });
+  const post = jest.spyOn(api['client'], 'post').mockResolvedValue({ data: reply });
+
+  await api.sendRequest({
+    provider: 'gemini',
+    model: 'gemini-1.5-flash',
+    messages: [{ role: 'user', content: 'Extract it' }],
+    ...request,
+  });
+  return post.mock.calls[0][1];
+}
+
+describe('GeminiAPI structured output', () => {
+  it('sends the response schema to models with JSON mode', async () => {
+    const body = await sentBody({ responseSchema: schema });
+
+    expect(body.generationConfig.responseMimeType).toBe('application/json');
+    expect(body.generationConfig.responseSchema).toEqual({
+      type: 'OBJECT',
+      properties: {
+        name: { type: 'STRING' },
+        price: { type: 'NUMBER', nullable: true },
+      },
+      required: ['name'],
+    });
+  });
+
+  it('leaves the schema to the prompt for models without JSON mode', async () => {
+    const body = await sentBody({ model: 'gemini-pro', responseSchema: schema });
+
+    expect(body.generationConfig.responseMimeType).toBeUndefined();
+    expect(body.generationConfig.responseSchema).toBeUndefined();
+  });
+
+  it('keeps the tools and drops the schema when both would be sent', async () => {
+    const body = await sentBody({
+      responseSchema: schema,
+      tools: [{ name: 'read_page', description: 'Read the page', parameters: { type: 'object', properties: {} } }],
+    });
+
+    expect(body.tools).toHaveLength(1);
+    expect(body.generationConfig.responseSchema).toBeUndefined();
+  });
+});
@@ -1,10 +1,70 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { AIRequest, AIResponse, StreamChunk, AIMessage } from '@/types/ai';
-
-export class GeminiAPI {
+import { AIRequest, AIResponse, StreamChunk, AIMessage, AIModel, ToolCall } from '@/types/ai';
+import { ProviderAdapter, ProviderAdapterConfig, ProviderDefinition, RateLimitStatus } from '@/types/provider';
+import { ProviderHTTPError, getHTTPErrorDetails, describeError } from './apiError';
+import { RateLimitTracker } from './rateLimit';
+import { JSONArrayParser, readStream } from '@/utils/streamParser';
+import { parseGeminiToolCalls, toGeminiParts, toGeminiSchema, toGeminiTools, toGeminiToolContent } from './toolFormat';
+
+const geminiModels: AIModel[] = [
+  {
+    provider: 'gemini',
+    id: 'gemini-pro',
+    name: 'Gemini Pro',
+    maxTokens: 32768,
+    costPer1kTokens: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text', 'tools'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-pro-vision',
+    name: 'Gemini Pro Vision',
+    maxTokens: 16384,
+    costPer1kTokens: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text', 'vision'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-1.5-pro',
+    name: 'Gemini 1.5 Pro',
+    maxTokens: 2097152,
+    costPer1kTokens: { input: 0.00125, output: 0.005 },
+    capabilities: ['text', 'vision', 'tools', 'json'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-1.5-flash',
+    name: 'Gemini 1.5 Flash',
+    maxTokens: 1048576,
+    costPer1kTokens: { input: 0.000075, output: 0.0003 },
+    capabilities: ['text', 'vision', 'tools', 'json'],
+    streaming: true,
+    tier: 'low',
+  },
+  {
+    provider: 'gemini',
+    id: 'gemini-ultra',
+    name: 'Gemini Ultra',
+    maxTokens: 32768,
+    costPer1kTokens: { input: 0.001, output: 0.003 },
+    capabilities: ['text', 'tools'],
+    streaming: true,
+    tier: 'high',
+    legacy: true,
+  },
+];
+
+export class GeminiAPI implements ProviderAdapter {
   private client: AxiosInstance;
   private apiKey: string = '';
   private config: any = {};
+  private rateLimits = new RateLimitTracker();
 
   constructor() {
     this.client = axios.create({
@@ -13,9 +73,15 @@ export class GeminiAPI {
         'Content-Type': 'application/json',
       },
     });
+
+    // Every response carries the provider's current rate limits
+    this.client.interceptors.response.use(response => {
+      this.rateLimits.update(response.headers);
+      return response;
+    });
   }
 
-  configure(config: { apiKey: string; [key: string]: any }): void {
+  configure(config: ProviderAdapterConfig): void {
     this.apiKey = config.apiKey;
     this.config = config;
   }
@@ -59,60 +125,53 @@ export class GeminiAPI {
       );
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await ProviderHTTPError.fromResponse(response);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = '';
+      this.rateLimits.update(response.headers);
 
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+      let fullContent = '';
+      let usageMetadata: any;
+      const toolCalls: ToolCall[] = [];
+
+      // Gemini streams a JSON array, one response object per element
+      await readStream(response, new JSONArrayParser(), parsed => {
+        const parts = parsed.candidates?.[0]?.content?.parts;
+        const text = this.getText(parts);
+
+        // Function calls arrive whole rather than in fragments
+        toolCalls.push(...(parseGeminiToolCalls(parts) || []));
+
+        // Each chunk reports the usage so far; the last one has the total
+        usageMetadata = parsed.usageMetadata || usageMetadata;
+
+        if (text) {
+          fullContent += text;
+          onChunk({
+            delta: text,
+            finished: false,
+            provider: 'gemini',
+            model: model,
+          });
+        }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-
-        // Gemini streams JSON objects separated by newlines
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-
-            if (text) {
-              fullContent += text;
-              onChunk({
-                delta: text,
-                finished: false,
-                provider: 'gemini',
-                model: model,
-              });
-            }
-
-            if (parsed.candidates?.[0]?.finishReason) {
-              onChunk({
-                delta: '',
-                finished: true,
-                provider: 'gemini',
-                model: model,
-              });
-            }
-          } catch (e) {
-            // Ignore parsing errors for incomplete chunks
-          }
+        if (parsed.candidates?.[0]?.finishReason) {
+          onChunk({
+            delta: '',
+            finished: true,
+            provider: 'gemini',
+            model: model,
+          });
         }
-      }
+      });
 
       return {
         provider: 'gemini',
         model: model,
         content: fullContent,
         streaming: true,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        ...this.getUsage(model, usageMetadata),
       };
     } catch (error) {
       return this.handleError(error as Error, request);
@@ -143,11 +202,7 @@ export class GeminiAPI {
       return models;
     } catch (error) {
       // Return default models if API call fails
-      return [
-        'gemini-pro',
-        'gemini-pro-vision',
-        'gemini-ultra',
-      ];
+      return geminiModels.map(model => model.id);
     }
   }
 
@@ -157,16 +212,17 @@ export class GeminiAPI {
   }
 
   calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const costs: Record<string, { input: number; output: number }> = {
-      'gemini-pro': { input: 0.0005, output: 0.0015 },
-      'gemini-pro-vision': { input: 0.0005, output: 0.0015 },
-      'gemini-ultra': { input: 0.001, output: 0.003 },
-    };
+    const modelInfo = geminiModels.find(m => m.id === model) ||
+      geminiModels.find(m => m.id === 'gemini-pro')!;
 
-    const modelCost = costs[model] || costs['gemini-pro'];
+    const modelCost = modelInfo.costPer1kTokens;
     return (inputTokens * modelCost.input + outputTokens * modelCost.output) / 1000;
   }
 
+  async getRateLimitStatus(): Promise<RateLimitStatus> {
+    return this.rateLimits.getStatus();
+  }
+
   private transformRequest(request: AIRequest): any {
     const contents = this.transformMessages(request.messages, request.systemPrompt);
 
@@ -182,6 +238,19 @@ export class GeminiAPI {
     // Add safety settings
     geminiRequest.safetySettings = this.getSafetySettings();
 
+    if (request.tools?.length) {
+      geminiRequest.tools = toGeminiTools(request.tools);
+    }
+
+    // JSON mode needs a model that has it, and Gemini rejects it together
+    // with function calling. Otherwise the schema instruction in the prompt
+    // has to do.
+    const capabilities = geminiModels.find(m => m.id === (request.model || 'gemini-pro'))?.capabilities || [];
+    if (request.responseSchema && capabilities.includes('json') && !geminiRequest.tools) {
+      geminiRequest.generationConfig.responseMimeType = 'application/json';
+      geminiRequest.generationConfig.responseSchema = toGeminiSchema(request.responseSchema);
+    }
+
     // Add context if available
     if (request.context) {
       const contextContent = this.buildContextContent(request.context);
@@ -210,12 +279,18 @@ export class GeminiAPI {
 
     // Transform messages
     messages.forEach(msg => {
+      const toolContent = toGeminiToolContent(msg);
+      if (toolContent) {
+        contents.push(toolContent);
+        return;
+      }
+
       // Gemini uses 'model' instead of 'assistant'
       const role = msg.role === 'assistant' ? 'model' : msg.role === 'system' ? 'user' : msg.role;
 
       contents.push({
         role,
-        parts: [{ text: msg.content }],
+        parts: toGeminiParts(msg),
       });
     });
 
@@ -275,36 +350,41 @@ export class GeminiAPI {
 
   private transformResponse(response: any, request: AIRequest): AIResponse {
     const candidate = response.candidates?.[0];
-    const content = candidate?.content?.parts?.[0]?.text || '';
-
-    // Extract token count if available
-    const metadata = response.usageMetadata;
-    const usage = metadata ? {
-      inputTokens: metadata.promptTokenCount || 0,
-      outputTokens: metadata.candidatesTokenCount || 0,
-      totalTokens: metadata.totalTokenCount || 0,
-    } : undefined;
+    const content = this.getText(candidate?.content?.parts);
 
     return {
       provider: 'gemini',
       model: request.model || 'gemini-pro',
       content,
-      usage,
-      cost: usage ?
-        this.calculateCost(
-          request.model || 'gemini-pro',
-          usage.inputTokens,
-          usage.outputTokens
-        ) : undefined,
+      ...this.getUsage(request.model || 'gemini-pro', response.usageMetadata),
+      toolCalls: parseGeminiToolCalls(candidate?.content?.parts),
+    };
+  }
+
+  private getUsage(model: string, metadata: any): Pick<AIResponse, 'usage' | 'cost'> {
+    if (!metadata) return {};
+
+    const usage = {
+      inputTokens: metadata.promptTokenCount || 0,
+      outputTokens: metadata.candidatesTokenCount || 0,
+      totalTokens: metadata.totalTokenCount || 0,
     };
+    return { usage, cost: this.calculateCost(model, usage.inputTokens, usage.outputTokens) };
+  }
+
+  // Text parts joined; function call parts carry none
+  private getText(parts: any[] | undefined): string {
+    return (parts || []).map(part => part.text || '').join('');
   }
 
   private handleError(error: AxiosError | Error, request: AIRequest): AIResponse {
     let errorMessage = 'Unknown error occurred';
 
-    if ('response' in error && error.response) {
-      const status = error.response.status;
-      const data: any = error.response.data;
+    const details = getHTTPErrorDetails(error);
+
+    if (details) {
+      this.rateLimits.update(details.headers, details.status);
+      const { status, data } = details;
 
       switch (status) {
         case 400:
@@ -337,52 +417,12 @@ export class GeminiAPI {
       model: request.model || 'gemini-pro',
       content: '',
       error: errorMessage,
+      ...describeError(error),
     };
   }
 
   // Additional Gemini-specific features
 
-  async generateWithImage(
-    prompt: string,
-    imageBase64: string,
-    mimeType: string = 'image/jpeg'
-  ): Promise<AIResponse> {
-    try {
-      const response = await this.client.post(
-        `/models/gemini-pro-vision:generateContent?key=${this.apiKey}`,
-        {
-          contents: [{
-            parts: [
-              { text: prompt },
-              {
-                inline_data: {
-                  mime_type: mimeType,
-                  data: imageBase64,
-                },
-              },
-            ],
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 4000,
-          },
-        }
-      );
-
-      return this.transformResponse(response.data, {
-        provider: 'gemini',
-        model: 'gemini-pro-vision',
-        messages: [],
-      });
-    } catch (error) {
-      return this.handleError(error as AxiosError, {
-        provider: 'gemini',
-        model: 'gemini-pro-vision',
-        messages: [],
-      });
-    }
-  }
-
   async embedText(text: string): Promise<number[]> {
     try {
       const response = await this.client.post(
@@ -401,4 +441,49 @@ export class GeminiAPI {
       return [];
     }
   }
-}
\ No newline at end of file
+}
+
+export const geminiProvider: ProviderDefinition = {
+  id: 'gemini',
+  name: 'Gemini',
+  description: 'Great for research & real-time info',
+  icon: 'globe',
+  color: 'from-blue-500 to-indigo-600',
+  models: geminiModels,
+  defaultModel: 'gemini-pro',
+  taskStrengths: {
+    creative_writing: 0.7,
+    analysis: 0.8,
+    reasoning: 0.8,
+    code_generation: 0.8,
+    debugging: 0.7,
+    technical_docs: 0.8,
+    research: 1.0,
+    real_time_info: 1.0,
+    translation: 0.9,
+    summarization: 0.8,
+    casual_chat: 0.7,
+    data_extraction: 0.9,
+  },
+  defaultMetrics: { avgResponseTime: 1500, successRate: 0.96 },
+  routingRules: [
+    {
+      id: 'gemini-research',
+      name: 'Gemini for Research',
+      pattern: /research|search|find|latest|news|current|google/i,
+      provider: 'gemini',
+      priority: 10,
+      taskTypes: ['research', 'real_time_info'],
+    },
+    {
+      id: 'gemini-data',
+      name: 'Gemini for Data Extraction',
+      pattern: /extract|data|table|csv|json|parse/i,
+      provider: 'gemini',
+      priority: 9,
+      taskTypes: ['data_extraction'],
+    },
+  ],
+  apiKeyPattern: /^[\w-]{39,}$/,
+  createAdapter: () => new GeminiAPI(),
+};
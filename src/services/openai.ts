@@ -1,26 +1,171 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { AIRequest, AIResponse, StreamChunk, AIMessage } from '@/types/ai';
-
-export class ChatGPTAPI {
-  private client: AxiosInstance;
-  private apiKey: string = '';
-  private config: any = {};
+import { AIProvider, AIRequest, AIResponse, StreamChunk, AIMessage, AIModel } from '@/types/ai';
+import { ProviderAdapter, ProviderAdapterConfig, ProviderDefinition, RateLimitStatus } from '@/types/provider';
+import { ProviderHTTPError, getHTTPErrorDetails, describeError } from './apiError';
+import { RateLimitTracker } from './rateLimit';
+import { SSEParser, readStream } from '@/utils/streamParser';
+import {
+  OpenAIToolCallStream,
+  getOpenAIReasoning,
+  getOpenAIReasoningTokens,
+  parseOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from './toolFormat';
+
+const chatgptModels: AIModel[] = [
+  {
+    provider: 'chatgpt',
+    id: 'o1',
+    name: 'o1',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.015, output: 0.06 },
+    capabilities: ['text', 'vision', 'tools', 'reasoning', 'json', 'json_schema'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'o3-mini',
+    name: 'o3-mini',
+    maxTokens: 200000,
+    costPer1kTokens: { input: 0.0011, output: 0.0044 },
+    capabilities: ['text', 'tools', 'reasoning', 'json', 'json_schema'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-4-turbo-preview',
+    name: 'GPT-4 Turbo Preview',
+    maxTokens: 128000,
+    costPer1kTokens: { input: 0.01, output: 0.03 },
+    capabilities: ['text', 'tools', 'json'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    maxTokens: 128000,
+    costPer1kTokens: { input: 0.01, output: 0.03 },
+    capabilities: ['text', 'vision', 'tools', 'json'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-4',
+    name: 'GPT-4',
+    maxTokens: 8192,
+    costPer1kTokens: { input: 0.03, output: 0.06 },
+    capabilities: ['text', 'tools'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-4-32k',
+    name: 'GPT-4 32K',
+    maxTokens: 32768,
+    costPer1kTokens: { input: 0.06, output: 0.12 },
+    capabilities: ['text', 'tools'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    maxTokens: 16385,
+    costPer1kTokens: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text', 'tools', 'json'],
+    streaming: true,
+    tier: 'low',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-3.5-turbo-16k',
+    name: 'GPT-3.5 Turbo 16K',
+    maxTokens: 16385,
+    costPer1kTokens: { input: 0.003, output: 0.004 },
+    capabilities: ['text', 'tools'],
+    streaming: true,
+    tier: 'low',
+  },
+  {
+    provider: 'chatgpt',
+    id: 'gpt-3.5-turbo-instruct',
+    name: 'GPT-3.5 Turbo Instruct',
+    maxTokens: 4096,
+    costPer1kTokens: { input: 0.0015, output: 0.002 },
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'low',
+    legacy: true,
+  },
+];
+
+/**
+ * Client for the OpenAI chat completions API. Subclasses reuse it for other
+ * servers that speak the same protocol by overriding the protected fields.
+ */
+export class ChatGPTAPI implements ProviderAdapter {
+  protected client: AxiosInstance;
+  protected apiKey: string = '';
+  protected config: any = {};
+  protected rateLimits = new RateLimitTracker();
+  protected provider: AIProvider = 'chatgpt';
+  protected serviceName: string = 'OpenAI API';
+  protected baseUrl: string = 'https://api.openai.com/v1';
+  protected models: AIModel[] = chatgptModels;
+  protected defaultModel: string = 'gpt-4-turbo-preview';
+  protected streamUsage: boolean = true; // Send stream_options; some compatible servers reject it
 
   constructor() {
     this.client = axios.create({
-      baseURL: 'https://api.openai.com/v1',
+      baseURL: this.baseUrl,
       headers: {
         'Content-Type': 'application/json',
       },
     });
+
+    // Every response carries the provider's current rate limits
+    this.client.interceptors.response.use(response => {
+      this.rateLimits.update(response.headers);
+      return response;
+    });
   }
 
-  configure(config: { apiKey: string; [key: string]: any }): void {
+  configure(config: ProviderAdapterConfig): void {
     this.apiKey = config.apiKey;
     this.config = config;
 
+    if (config.baseUrl) {
+      this.setBaseUrl(config.baseUrl);
+    }
+
     // Update axios headers
-    this.client.defaults.headers.common['Authorization'] = `Bearer ${this.apiKey}`;
+    Object.entries(this.getRequestHeaders()).forEach(([name, value]) => {
+      this.client.defaults.headers.common[name] = value;
+    });
+  }
+
+  protected setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.client.defaults.baseURL = this.baseUrl;
+  }
+
+  /**
+   * Headers sent with every request, including authentication
+   */
+  protected getRequestHeaders(): Record<string, string> {
+    return {
+      ...this.config.headers,
+      'Authorization': `Bearer ${this.apiKey}`,
+    };
   }
 
   async sendRequest(request: AIRequest, signal?: AbortSignal): Promise<AIResponse> {
@@ -45,74 +190,84 @@ export class ChatGPTAPI {
     const openaiRequest = this.transformRequest(request);
     openaiRequest.stream = true;
 
+    // Streams leave out the usage, including reasoning tokens, unless asked
+    if (this.streamUsage) {
+      openaiRequest.stream_options = { include_usage: true };
+    }
+
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...this.getRequestHeaders(),
         },
         body: JSON.stringify(openaiRequest),
         signal,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await ProviderHTTPError.fromResponse(response);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      this.rateLimits.update(response.headers);
+
       let fullContent = '';
+      let reasoning = '';
+      let usage: any;
+      const toolCalls = new OpenAIToolCallStream();
+
+      await readStream(response, new SSEParser(), event => {
+        if (event.data === '[DONE]') {
+          onChunk({
+            delta: '',
+            finished: true,
+            provider: this.provider,
+            model: request.model || this.defaultModel,
+          });
+          return;
+        }
 
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+        try {
+          const parsed = JSON.parse(event.data);
+          const delta = parsed.choices?.[0]?.delta?.content;
+          const reasoningDelta = getOpenAIReasoning(parsed.choices?.[0]?.delta);
+          toolCalls.push(parsed.choices?.[0]?.delta);
+          usage = parsed.usage || usage;
+
+          if (reasoningDelta) {
+            reasoning += reasoningDelta;
+            onChunk({
+              delta: reasoningDelta,
+              kind: 'reasoning',
+              finished: false,
+              provider: this.provider,
+              model: request.model || this.defaultModel,
+            });
+          }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              onChunk({
-                delta: '',
-                finished: true,
-                provider: 'chatgpt',
-                model: request.model || 'gpt-4-turbo-preview',
-              });
-              continue;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-
-              if (delta) {
-                fullContent += delta;
-                onChunk({
-                  delta,
-                  finished: false,
-                  provider: 'chatgpt',
-                  model: request.model || 'gpt-4-turbo-preview',
-                });
-              }
-            } catch (e) {
-              // Ignore parsing errors for incomplete chunks
-            }
+          if (delta) {
+            fullContent += delta;
+            onChunk({
+              delta,
+              finished: false,
+              provider: this.provider,
+              model: request.model || this.defaultModel,
+            });
           }
+        } catch (e) {
+          // Skip events that are not JSON
         }
-      }
+      });
 
       return {
-        provider: 'chatgpt',
-        model: request.model || 'gpt-4-turbo-preview',
+        provider: this.provider,
+        model: request.model || this.defaultModel,
         content: fullContent,
         streaming: true,
+        toolCalls: toolCalls.getCalls(),
+        ...this.getUsage(request.model || this.defaultModel, usage),
+        reasoning: reasoning || undefined,
       };
     } catch (error) {
       return this.handleError(error as Error, request);
@@ -132,18 +287,12 @@ export class ChatGPTAPI {
     try {
       const response = await this.client.get('/models');
       const models = response.data.data
-        .filter((model: any) => model.id.includes('gpt'))
+        .filter((model: any) => model.id.includes('gpt') || /^o\d/.test(model.id))
         .map((model: any) => model.id);
       return models;
     } catch (error) {
       // Return default models if API call fails
-      return [
-        'gpt-4-turbo-preview',
-        'gpt-4',
-        'gpt-4-32k',
-        'gpt-3.5-turbo',
-        'gpt-3.5-turbo-16k',
-      ];
+      return this.models.map(model => model.id);
     }
   }
 
@@ -154,23 +303,23 @@ export class ChatGPTAPI {
   }
 
   calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const costs: Record<string, { input: number; output: number }> = {
-      'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
-      'gpt-4': { input: 0.03, output: 0.06 },
-      'gpt-4-32k': { input: 0.06, output: 0.12 },
-      'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
-      'gpt-3.5-turbo-16k': { input: 0.003, output: 0.004 },
-    };
+    const modelInfo = this.models.find(m => m.id === model) ||
+      this.models.find(m => m.id === 'gpt-3.5-turbo') ||
+      this.models[0];
 
-    const modelCost = costs[model] || costs['gpt-3.5-turbo'];
+    const modelCost = modelInfo.costPer1kTokens;
     return (inputTokens * modelCost.input + outputTokens * modelCost.output) / 1000;
   }
 
+  async getRateLimitStatus(): Promise<RateLimitStatus> {
+    return this.rateLimits.getStatus();
+  }
+
   private transformRequest(request: AIRequest): any {
     const messages = this.transformMessages(request.messages, request.systemPrompt);
 
     const openaiRequest: any = {
-      model: request.model || 'gpt-4-turbo-preview',
+      model: request.model || this.defaultModel,
       messages,
       max_tokens: request.maxTokens || 4000,
     };
@@ -193,6 +342,28 @@ export class ChatGPTAPI {
       openaiRequest.presence_penalty = this.config.presencePenalty;
     }
 
+    // Reasoning models take an effort, count their reasoning against
+    // max_completion_tokens and reject sampling parameters
+    const model = this.models.find(m => m.id === openaiRequest.model);
+    if (model?.capabilities.includes('reasoning')) {
+      openaiRequest.max_completion_tokens = openaiRequest.max_tokens;
+      ['max_tokens', 'temperature', 'top_p', 'frequency_penalty', 'presence_penalty']
+        .forEach(param => delete openaiRequest[param]);
+
+      if (request.reasoning) {
+        openaiRequest.reasoning_effort = request.reasoning.effort;
+      }
+    }
+
+    if (request.tools?.length) {
+      openaiRequest.tools = toOpenAITools(request.tools);
+    }
+
+    const responseFormat = toOpenAIResponseFormat(request.responseSchema, model?.capabilities || []);
+    if (responseFormat) {
+      openaiRequest.response_format = responseFormat;
+    }
+
     // Add context if available
     if (request.context) {
       const contextMessage = this.buildContextMessage(request.context);
@@ -217,10 +388,7 @@ export class ChatGPTAPI {
 
     // Transform messages
     messages.forEach(msg => {
-      transformed.push({
-        role: msg.role,
-        content: msg.content,
-      });
+      transformed.push(...toOpenAIMessages(msg));
     });
 
     return transformed;
@@ -258,29 +426,39 @@ export class ChatGPTAPI {
     const content = choice?.message?.content || '';
 
     return {
-      provider: 'chatgpt',
-      model: response.model || request.model || 'gpt-4-turbo-preview',
+      provider: this.provider,
+      model: response.model || request.model || this.defaultModel,
       content,
-      usage: response.usage ? {
-        inputTokens: response.usage.prompt_tokens,
-        outputTokens: response.usage.completion_tokens,
-        totalTokens: response.usage.total_tokens,
-      } : undefined,
-      cost: response.usage ?
-        this.calculateCost(
-          response.model || request.model || 'gpt-4-turbo-preview',
-          response.usage.prompt_tokens,
-          response.usage.completion_tokens
-        ) : undefined,
+      ...this.getUsage(response.model || request.model || this.defaultModel, response.usage),
+      toolCalls: parseOpenAIToolCalls(choice?.message),
+      reasoning: getOpenAIReasoning(choice?.message),
+    };
+  }
+
+  private getUsage(model: string, usage: any): Pick<AIResponse, 'usage' | 'cost' | 'reasoningCost'> {
+    if (!usage) return {};
+
+    const reasoningTokens = getOpenAIReasoningTokens(usage);
+    return {
+      usage: {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        reasoningTokens,
+      },
+      cost: this.calculateCost(model, usage.prompt_tokens, usage.completion_tokens),
+      reasoningCost: reasoningTokens !== undefined ? this.calculateCost(model, 0, reasoningTokens) : undefined,
     };
   }
 
   private handleError(error: AxiosError | Error, request: AIRequest): AIResponse {
     let errorMessage = 'Unknown error occurred';
 
-    if ('response' in error && error.response) {
-      const status = error.response.status;
-      const data: any = error.response.data;
+    const details = getHTTPErrorDetails(error);
+
+    if (details) {
+      this.rateLimits.update(details.headers, details.status);
+      const { status, data } = details;
 
       switch (status) {
         case 401:
@@ -292,7 +470,7 @@ export class ChatGPTAPI {
         case 500:
         case 502:
         case 503:
-          errorMessage = 'OpenAI API is temporarily unavailable';
+          errorMessage = `${this.serviceName} is temporarily unavailable`;
           break;
         case 400:
           errorMessage = data?.error?.message || 'Bad request';
@@ -305,16 +483,17 @@ export class ChatGPTAPI {
     }
 
     return {
-      provider: 'chatgpt',
-      model: request.model || 'gpt-4-turbo-preview',
+      provider: this.provider,
+      model: request.model || this.defaultModel,
       content: '',
       error: errorMessage,
+      ...describeError(error),
     };
   }
 
   // Additional OpenAI-specific features
 
-  async createEmbedding(text: string): Promise<number[]> {
+  async embedText(text: string): Promise<number[]> {
     try {
       const response = await this.client.post('/embeddings', {
         model: 'text-embedding-ada-002',
@@ -350,4 +529,50 @@ export class ChatGPTAPI {
       };
     }
   }
-}
\ No newline at end of file
+}
+
+export const chatgptProvider: ProviderDefinition = {
+  id: 'chatgpt',
+  name: 'ChatGPT',
+  description: 'Excellent for code & technical tasks',
+  icon: 'message-circle',
+  color: 'from-green-500 to-emerald-600',
+  models: chatgptModels,
+  defaultModel: 'gpt-4-turbo-preview',
+  taskStrengths: {
+    creative_writing: 0.8,
+    analysis: 0.8,
+    reasoning: 0.8,
+    code_generation: 1.0,
+    debugging: 1.0,
+    technical_docs: 1.0,
+    research: 0.7,
+    real_time_info: 0.4,
+    translation: 0.9,
+    summarization: 0.8,
+    casual_chat: 0.8,
+    data_extraction: 0.8,
+  },
+  defaultMetrics: { avgResponseTime: 1800, successRate: 0.97 },
+  routingRules: [
+    {
+      id: 'chatgpt-code',
+      name: 'ChatGPT for Code',
+      pattern: /code|program|function|debug|implement|javascript|python|typescript/i,
+      provider: 'chatgpt',
+      model: 'gpt-4-turbo-preview',
+      priority: 10,
+      taskTypes: ['code_generation', 'debugging'],
+    },
+    {
+      id: 'chatgpt-technical',
+      name: 'ChatGPT for Technical Documentation',
+      pattern: /technical|documentation|api|specification/i,
+      provider: 'chatgpt',
+      priority: 9,
+      taskTypes: ['technical_docs'],
+    },
+  ],
+  apiKeyPattern: /^sk-[\w]{48,}$/,
+  createAdapter: () => new ChatGPTAPI(),
+};
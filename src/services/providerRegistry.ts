@@ -0,0 +1,150 @@
+import { AIProvider, AIModel } from '@/types/ai';
+import { ProviderAdapter, ProviderDefinition } from '@/types/provider';
+import { claudeProvider } from './anthropic';
+import { chatgptProvider } from './openai';
+import { geminiProvider } from './google';
+import { grokProvider } from './xai';
+
+// Pseudo provider id meaning "let the router pick"
+export const AUTO_PROVIDER: AIProvider = 'auto';
+
+/**
+ * Single source of truth for the AI providers the extension knows about.
+ * Adding a backend means exporting a ProviderDefinition and registering it here.
+ */
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private definitions: Map<AIProvider, ProviderDefinition> = new Map();
+  private adapters: Map<AIProvider, ProviderAdapter> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * Register a provider, replacing any existing one with the same id
+   */
+  register(definition: ProviderDefinition): void {
+    this.definitions.set(definition.id, definition);
+    this.adapters.delete(definition.id);
+    this.notify();
+  }
+
+  unregister(id: AIProvider): void {
+    this.definitions.delete(id);
+    this.adapters.delete(id);
+    this.notify();
+  }
+
+  /**
+   * Listen for providers being added or removed
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get(id: AIProvider): ProviderDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  has(id: AIProvider): boolean {
+    return this.definitions.has(id);
+  }
+
+  list(): ProviderDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  ids(): AIProvider[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Get the adapter for a provider, creating it on first use
+   */
+  getAdapter(id: AIProvider): ProviderAdapter | undefined {
+    let adapter = this.adapters.get(id);
+    if (!adapter) {
+      const definition = this.definitions.get(id);
+      if (!definition) return undefined;
+
+      adapter = definition.createAdapter();
+      this.adapters.set(id, adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * Look up a model by id. Versioned ids such as `gpt-4-0613` fall back to
+   * the longest registered id they start with.
+   */
+  findModel(modelId: string, provider?: AIProvider): AIModel | undefined {
+    const definitions = provider
+      ? [this.definitions.get(provider)].filter((d): d is ProviderDefinition => !!d)
+      : this.list();
+    const models = definitions.flatMap(d => d.models);
+
+    const exact = models.find(m => m.id === modelId);
+    if (exact) return exact;
+
+    return models
+      .filter(m => modelId.startsWith(m.id))
+      .sort((a, b) => b.id.length - a.id.length)[0];
+  }
+
+  /**
+   * Get the default model for a provider
+   */
+  getDefaultModel(id: AIProvider): AIModel | undefined {
+    const definition = this.definitions.get(id);
+    if (!definition) return undefined;
+
+    return definition.models.find(m => m.id === definition.defaultModel) || definition.models[0];
+  }
+
+  /**
+   * Pick the model of a provider closest to the given one: same tier if
+   * possible, preferring `preferred` (usually the user's configured model).
+   * Only current models with all of `capabilities` qualify.
+   */
+  findComparableModel(
+    modelId: string,
+    target: AIProvider,
+    preferred?: string,
+    capabilities: string[] = []
+  ): AIModel | undefined {
+    const definition = this.definitions.get(target);
+    if (!definition) return undefined;
+
+    const models = definition.models.filter(m => !m.legacy && capabilities.every(c => m.capabilities.includes(c)));
+    const tier = this.findModel(modelId)?.tier;
+    const sameTier = models.filter(m => m.tier === tier);
+    const preferredModel = preferred ? models.find(m => m.id === preferred) : undefined;
+
+    if (preferredModel && (!tier || preferredModel.tier === tier)) return preferredModel;
+    return sameTier.find(m => m.id === definition.defaultModel)
+      || sameTier[0]
+      || preferredModel
+      || models.find(m => m.id === definition.defaultModel)
+      || models[0];
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const providerRegistry = ProviderRegistry.getInstance();
+
+[claudeProvider, chatgptProvider, geminiProvider, grokProvider].forEach(definition =>
+  providerRegistry.register(definition)
+);
+
+export default providerRegistry;
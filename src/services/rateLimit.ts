@@ -0,0 +1,178 @@
+import { RateLimitStatus, RateLimitWindow } from '@/types/provider';
+
+/**
+ * Lower-case header names from fetch Headers or an axios header object
+ */
+export function normalizeHeaders(headers: Headers | Record<string, any> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers) return result;
+
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, name) => {
+      result[name.toLowerCase()] = value;
+    });
+    return result;
+  }
+
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = String(value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Parse durations such as "20ms", "1.5s" or "6m0s". Bare numbers are seconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return undefined;
+
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    return total + Number(amount) * units[unit];
+  }, 0);
+}
+
+/**
+ * How long the provider asked us to wait, in milliseconds. Understands
+ * Retry-After (seconds or HTTP date), retry-after-ms, OpenAI-style
+ * x-ratelimit-reset-* durations and Anthropic's anthropic-ratelimit-*-reset
+ * timestamps. Reset headers only count for windows with nothing remaining,
+ * so a daily window that still has room doesn't stretch the wait.
+ */
+export function getRetryAfter(headers: Record<string, string>): number | undefined {
+  if (headers['retry-after-ms']) {
+    const ms = Number(headers['retry-after-ms']);
+    if (!isNaN(ms)) return ms;
+  }
+
+  if (headers['retry-after']) {
+    const value = headers['retry-after'];
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const resets: number[] = [];
+  const exhausted = (remaining: string) => headers[remaining] !== undefined && Number(headers[remaining]) <= 0;
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.startsWith('x-ratelimit-reset')) {
+      if (!exhausted(name.replace('x-ratelimit-reset', 'x-ratelimit-remaining'))) continue;
+      const ms = parseDuration(value);
+      if (ms !== undefined) resets.push(ms);
+    } else if (name.startsWith('anthropic-ratelimit-') && name.endsWith('-reset')) {
+      if (!exhausted(name.replace(/-reset$/, '-remaining'))) continue;
+      const date = Date.parse(value);
+      if (!isNaN(date)) resets.push(Math.max(0, date - Date.now()));
+    }
+  }
+
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Read one limit window from either header family:
+ * anthropic-ratelimit-{kind}-limit/remaining/reset (RFC 3339 reset) or
+ * x-ratelimit-limit/remaining/reset-{kind} (duration reset)
+ */
+function parseWindow(headers: Record<string, string>, kind: 'requests' | 'tokens'): RateLimitWindow | undefined {
+  const anthropicPrefix = `anthropic-ratelimit-${kind}`;
+  const now = Date.now();
+
+  if (headers[`${anthropicPrefix}-remaining`] !== undefined) {
+    const reset = Date.parse(headers[`${anthropicPrefix}-reset`] || '');
+    return {
+      limit: Number(headers[`${anthropicPrefix}-limit`]) || 0,
+      remaining: Number(headers[`${anthropicPrefix}-remaining`]) || 0,
+      resetAt: isNaN(reset) ? now : reset,
+    };
+  }
+
+  if (headers[`x-ratelimit-remaining-${kind}`] !== undefined) {
+    const reset = parseDuration(headers[`x-ratelimit-reset-${kind}`] || '');
+    return {
+      limit: Number(headers[`x-ratelimit-limit-${kind}`]) || 0,
+      remaining: Number(headers[`x-ratelimit-remaining-${kind}`]) || 0,
+      resetAt: now + (reset || 0),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Live rate limit snapshot for one provider, updated from the headers of
+ * every response it sends back
+ */
+export class RateLimitTracker {
+  private status: RateLimitStatus = { updatedAt: 0 };
+
+  update(rawHeaders: Headers | Record<string, any> | undefined, httpStatus?: number): void {
+    const headers = normalizeHeaders(rawHeaders);
+    const requests = parseWindow(headers, 'requests');
+    const tokens = parseWindow(headers, 'tokens');
+
+    if (requests || tokens) {
+      this.status = {
+        requests: requests || this.status.requests,
+        tokens: tokens || this.status.tokens,
+        updatedAt: Date.now(),
+      };
+    }
+
+    // Some providers (Gemini) send a bare 429: treat requests as exhausted
+    // until the hinted time, or briefly if there is none
+    if (httpStatus === 429 && !requests) {
+      this.status = {
+        ...this.status,
+        requests: {
+          limit: this.status.requests?.limit || 0,
+          remaining: 0,
+          resetAt: Date.now() + (getRetryAfter(headers) ?? 60000),
+        },
+        updatedAt: Date.now(),
+      };
+    }
+  }
+
+  getStatus(): RateLimitStatus {
+    return this.status;
+  }
+}
+
+/**
+ * When the provider will accept requests again, or 0 if it has capacity now
+ */
+export function getBlockedUntil(status: RateLimitStatus): number {
+  const now = Date.now();
+  const exhausted = [status.requests, status.tokens].filter(
+    (window): window is RateLimitWindow => !!window && window.remaining <= 0 && window.resetAt > now
+  );
+
+  return exhausted.length > 0 ? Math.max(...exhausted.map(w => w.resetAt)) : 0;
+}
+
+/**
+ * Share of the tightest limit still available, from 0 to 1. Providers that
+ * haven't reported limits count as fully available.
+ */
+export function getAvailability(status: RateLimitStatus): number {
+  if (getBlockedUntil(status) > 0) return 0;
+
+  const now = Date.now();
+  const fractions = [status.requests, status.tokens]
+    .filter((window): window is RateLimitWindow => !!window && window.limit > 0 && window.resetAt > now)
+    .map(window => window.remaining / window.limit);
+
+  return fractions.length > 0 ? Math.min(1, ...fractions) : 1;
+}
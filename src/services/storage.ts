@@ -1,7 +1,23 @@
-import { StorageData, StorageArea, StorageService as IStorageService, ResponseCache, CachedResponse } from '@/types/storage';
+import { StorageData, StorageArea, StorageService as IStorageService, ResponseCache, CachedResponse, EncryptedAPIKeys } from '@/types/storage';
 import { ExtensionSettings, Conversation, PromptTemplate, SidebarState } from '@/types/extension';
-import { AIProvider } from '@/types/ai';
+import { AIProvider, AIRoutingRule, UserRoutingRule } from '@/types/ai';
 import encryptionService from './encryption';
+import providerRegistry from './providerRegistry';
+
+// Built-in provider rules become the editable defaults
+function toUserRoutingRule(rule: AIRoutingRule): UserRoutingRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: true,
+    conditions: {
+      promptPattern: rule.pattern instanceof RegExp ? rule.pattern.source : rule.pattern,
+    },
+    provider: rule.provider,
+    model: rule.model,
+    taskType: rule.taskTypes[0],
+  };
+}
 
 class StorageService implements IStorageService {
   private static instance: StorageService;
@@ -71,6 +87,24 @@ class StorageService implements IStorageService {
     }
   }
 
+  /**
+   * Write several keys in a single storage call so they are committed together
+   */
+  async setMany(items: Partial<StorageData>, area: StorageArea = 'local'): Promise<void> {
+    try {
+      const storage = area === 'sync' ? chrome.storage.sync : chrome.storage.local;
+      await storage.set(items);
+
+      // Update cache
+      Object.entries(items).forEach(([key, value]) => {
+        this.cache.set(key, { value, timestamp: Date.now() });
+      });
+    } catch (error) {
+      console.error(`Failed to set ${Object.keys(items).join(', ')} in ${area} storage:`, error);
+      throw error;
+    }
+  }
+
   async remove(key: keyof StorageData, area: StorageArea = 'local'): Promise<void> {
     try {
       const storage = area === 'sync' ? chrome.storage.sync : chrome.storage.local;
@@ -115,30 +149,40 @@ class StorageService implements IStorageService {
         language: 'en',
         notifications: true,
       },
-      providers: {
-        claude: {
-          enabled: true,
-          model: 'claude-3-sonnet-20240229',
-          temperature: 0.7,
-          maxTokens: 4000,
+      providers: Object.fromEntries(
+        providerRegistry.list().map(provider => [
+          provider.id,
+          {
+            enabled: true,
+            model: provider.defaultModel,
+            temperature: 0.7,
+            maxTokens: 4000,
+          },
+        ])
+      ),
+      customProviders: [],
+      routing: {
+        failoverEnabled: true,
+        failoverChains: {
+          default: providerRegistry.ids(),
         },
-        chatgpt: {
-          enabled: true,
-          model: 'gpt-4-turbo-preview',
-          temperature: 0.7,
-          maxTokens: 4000,
-        },
-        gemini: {
-          enabled: true,
-          model: 'gemini-pro',
-          temperature: 0.7,
-          maxTokens: 4000,
+        rules: providerRegistry.list()
+          .flatMap(provider => provider.routingRules)
+          .sort((a, b) => b.priority - a.priority)
+          .map(toUserRoutingRule),
+        strategy: 'balanced',
+        customWeights: {
+          capabilityMatch: 0.4,
+          userPreference: 0.3,
+          costEfficiency: 0.2,
+          responseSpeed: 0.1,
         },
-        grok: {
-          enabled: true,
-          model: 'grok-beta',
-          temperature: 0.7,
-          maxTokens: 4000,
+        qualityBar: 0.7,
+        classifier: 'keywords',
+        judge: {
+          provider: 'claude',
+          rubric: ['accuracy', 'completeness', 'conciseness'],
+          learnFromVerdicts: true,
         },
       },
       privacy: {
@@ -155,6 +199,8 @@ class StorageService implements IStorageService {
         clearHistoryOnClose: false,
         anonymousAnalytics: false,
         contextSharing: 'selection',
+        pageTools: false,
+        autoLockMinutes: 15,
       },
       advanced: {
         developerMode: false,
@@ -166,6 +212,7 @@ class StorageService implements IStorageService {
         cacheResponses: true,
         cacheTTL: 3600000, // 1 hour
         debugLogging: false,
+        historyOverflow: 'summarize',
       },
       appearance: {
         theme: 'auto',
@@ -180,7 +227,8 @@ class StorageService implements IStorageService {
   // Settings management
   async getSettings(): Promise<ExtensionSettings> {
     const settings = await this.get('settings', 'sync');
-    return settings || this.getDefaultSettings();
+    // Merge over defaults so settings saved by older versions pick up new fields
+    return settings ? this.deepMerge(this.getDefaultSettings(), settings) : this.getDefaultSettings();
   }
 
   async updateSettings(updates: Partial<ExtensionSettings>): Promise<void> {
@@ -189,6 +237,23 @@ class StorageService implements IStorageService {
     await this.set('settings', merged, 'sync');
   }
 
+  /**
+   * Remove a custom provider along with its provider settings and API key.
+   * Merging can't delete keys, so the settings are written whole.
+   */
+  async removeCustomProvider(id: AIProvider): Promise<void> {
+    const settings = await this.getSettings();
+    const providers = { ...settings.providers };
+    delete providers[id];
+
+    await this.set('settings', {
+      ...settings,
+      customProviders: settings.customProviders.filter(p => p.id !== id),
+      providers,
+    }, 'sync');
+    await this.removeAPIKey(id);
+  }
+
   // Conversation management
   async getConversations(): Promise<Conversation[]> {
     const conversations = await this.get('conversations', 'local');
@@ -263,6 +328,32 @@ class StorageService implements IStorageService {
     }
   }
 
+  /**
+   * Decrypt every stored API key and encrypt it again with a new password.
+   * Nothing is written; keys that cannot be decrypted are left out and
+   * listed in `failed`.
+   */
+  async reencryptAPIKeys(
+    oldPassword: string,
+    newPassword: string
+  ): Promise<{ apiKeys: EncryptedAPIKeys; failed: AIProvider[] }> {
+    const keys = await this.get('apiKeys', 'local') || {};
+    const apiKeys: EncryptedAPIKeys = {};
+    const failed: AIProvider[] = [];
+
+    for (const [provider, encrypted] of Object.entries(keys)) {
+      try {
+        const apiKey = await encryptionService.decryptAPIKey(encrypted, oldPassword);
+        apiKeys[provider] = await encryptionService.encryptAPIKey(apiKey, newPassword);
+      } catch (error) {
+        console.error(`Failed to decrypt API key for ${provider}:`, error);
+        failed.push(provider);
+      }
+    }
+
+    return { apiKeys, failed };
+  }
+
   async removeAPIKey(provider: AIProvider): Promise<void> {
     const keys = await this.get('apiKeys', 'local') || {};
     delete keys[provider];
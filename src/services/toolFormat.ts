@@ -0,0 +1,327 @@
+import { AIMessage, ContentPart, ImageContent, JSONSchema, ToolCall, ToolDefinition } from '@/types/ai';
+
+/**
+ * Mapping between the provider-neutral content, tool, schema and reasoning
+ * types and each vendor's wire format. OpenAI's format is shared by xAI and custom
+ * endpoints.
+ */
+
+// Gemini doesn't give calls an ID, and others may not when streaming
+export function generateToolCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function parseArguments(json: string | undefined): Record<string, any> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {}; // The model produced invalid JSON; let the tool report missing arguments
+  }
+}
+
+/**
+ * A message's images and text as parts. Images go first, which is what
+ * vision models are tuned for.
+ */
+export function getContentParts(msg: AIMessage): ContentPart[] {
+  return [
+    ...(msg.images || []).map(image => ({ type: 'image' as const, image })),
+    ...(msg.content || !msg.images?.length ? [{ type: 'text' as const, text: msg.content }] : []),
+  ];
+}
+
+function toDataURL(image: ImageContent): string {
+  return image.data ? `data:${image.mediaType};base64,${image.data}` : image.url || '';
+}
+
+// OpenAI, xAI and compatible endpoints
+
+export function toOpenAITools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * One chat message, or one per tool result since each is its own message
+ */
+export function toOpenAIMessages(msg: AIMessage): any[] {
+  if (msg.toolResults?.length) {
+    return msg.toolResults.map(result => ({
+      role: 'tool',
+      tool_call_id: result.toolCallId,
+      content: result.content,
+    }));
+  }
+
+  if (msg.toolCalls?.length) {
+    return [{
+      role: 'assistant',
+      content: msg.content || null,
+      tool_calls: msg.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    }];
+  }
+
+  return [{ role: msg.role, content: toOpenAIContent(msg) }];
+}
+
+function toOpenAIContent(msg: AIMessage): any {
+  if (!msg.images?.length) return msg.content;
+
+  return getContentParts(msg).map(part => (part.type === 'text'
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: toDataURL(part.image) } }));
+}
+
+/**
+ * The response_format for a schema. Strict schemas need a model with the
+ * 'json_schema' capability and an object at the top level; JSON mode needs
+ * 'json'. Without either the schema instruction in the prompt has to do.
+ */
+export function toOpenAIResponseFormat(schema: JSONSchema | undefined, capabilities: string[]): any | undefined {
+  if (!schema) return undefined;
+  if (schema.type === 'object' && capabilities.includes('json_schema')) {
+    return { type: 'json_schema', json_schema: { name: 'response', schema } };
+  }
+  // JSON mode only produces objects, so other schemas rely on the prompt
+  if (schema.type === 'object' && capabilities.includes('json')) {
+    return { type: 'json_object' };
+  }
+  return undefined;
+}
+
+// Reasoning text on a message or stream delta. xAI and DeepSeek call it
+// `reasoning_content`, some other compatible servers `reasoning`.
+export function getOpenAIReasoning(message: any): string | undefined {
+  const reasoning = message?.reasoning_content ?? message?.reasoning;
+  return typeof reasoning === 'string' && reasoning ? reasoning : undefined;
+}
+
+// OpenAI reports reasoning tokens but doesn't return the reasoning itself
+export function getOpenAIReasoningTokens(usage: any): number | undefined {
+  return usage?.completion_tokens_details?.reasoning_tokens || undefined;
+}
+
+export function parseOpenAIToolCalls(message: any): ToolCall[] | undefined {
+  const calls: ToolCall[] = (message?.tool_calls || [])
+    .filter((call: any) => call.function?.name)
+    .map((call: any) => ({
+      id: call.id || generateToolCallId(),
+      name: call.function.name,
+      arguments: parseArguments(call.function.arguments),
+    }));
+
+  // Older models and some compatible servers use the legacy single call
+  if (calls.length === 0 && message?.function_call?.name) {
+    calls.push({
+      id: generateToolCallId(),
+      name: message.function_call.name,
+      arguments: parseArguments(message.function_call.arguments),
+    });
+  }
+
+  return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Assembles tool calls from streamed deltas, where the arguments arrive as
+ * JSON fragments keyed by the call's index
+ */
+export class OpenAIToolCallStream {
+  private calls: { id?: string; name: string; arguments: string }[] = [];
+
+  push(delta: any): void {
+    (delta?.tool_calls || []).forEach((part: any) => {
+      const index = part.index ?? this.calls.length;
+      const call = this.calls[index] || (this.calls[index] = { name: '', arguments: '' });
+
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.name += part.function.name;
+      if (part.function?.arguments) call.arguments += part.function.arguments;
+    });
+  }
+
+  getCalls(): ToolCall[] | undefined {
+    const calls = this.calls
+      .filter(call => call?.name)
+      .map(call => ({ id: call.id || generateToolCallId(), name: call.name, arguments: parseArguments(call.arguments) }));
+    return calls.length > 0 ? calls : undefined;
+  }
+}
+
+// Anthropic
+
+export function toAnthropicTools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+/**
+ * Message content, as blocks when it carries images, tool calls or results
+ */
+export function toAnthropicContent(msg: AIMessage): any {
+  if (msg.toolResults?.length) {
+    return msg.toolResults.map(result => ({
+      type: 'tool_result',
+      tool_use_id: result.toolCallId,
+      content: result.content,
+      is_error: result.isError || undefined,
+    }));
+  }
+
+  if (msg.toolCalls?.length) {
+    return [
+      // With extended thinking on, tool calls must come back with the
+      // thinking that led to them
+      ...(msg.reasoning && msg.reasoningSignature
+        ? [{ type: 'thinking', thinking: msg.reasoning, signature: msg.reasoningSignature }]
+        : []),
+      ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+      ...msg.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+    ];
+  }
+
+  if (msg.images?.length) {
+    return getContentParts(msg).map(part => {
+      if (part.type === 'text') return { type: 'text', text: part.text };
+      const { data, mediaType, url } = part.image;
+      return {
+        type: 'image',
+        source: data ? { type: 'base64', media_type: mediaType, data } : { type: 'url', url },
+      };
+    });
+  }
+
+  return msg.content;
+}
+
+export function parseAnthropicToolCalls(content: any[] | undefined): ToolCall[] | undefined {
+  const calls: ToolCall[] = (content || [])
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({ id: block.id || generateToolCallId(), name: block.name, arguments: block.input || {} }));
+  return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Assembles tool_use blocks from stream events. The input arrives as JSON
+ * fragments on deltas for the block's index.
+ */
+export class AnthropicToolCallStream {
+  private blocks: Map<number, { id: string; name: string; json: string }> = new Map();
+
+  push(event: any): void {
+    if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+      this.blocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+      const block = this.blocks.get(event.index);
+      if (block) block.json += event.delta.partial_json || '';
+    }
+  }
+
+  getCalls(): ToolCall[] | undefined {
+    const calls = Array.from(this.blocks.values()).map(block => ({
+      id: block.id || generateToolCallId(),
+      name: block.name,
+      arguments: parseArguments(block.json),
+    }));
+    return calls.length > 0 ? calls : undefined;
+  }
+}
+
+// Gemini
+
+export function toGeminiTools(tools: ToolDefinition[]): any[] {
+  return [{
+    functionDeclarations: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      // Gemini rejects object schemas without properties
+      ...(Object.keys(tool.parameters.properties).length > 0 ? { parameters: toGeminiSchema(tool.parameters) } : {}),
+    })),
+  }];
+}
+
+/**
+ * Parts for one message, or null when it isn't a tool message
+ */
+export function toGeminiToolContent(msg: AIMessage): any | null {
+  if (msg.toolResults?.length) {
+    return {
+      role: 'function',
+      parts: msg.toolResults.map(result => ({
+        functionResponse: { name: result.name, response: { content: result.content } },
+      })),
+    };
+  }
+
+  if (msg.toolCalls?.length) {
+    return {
+      role: 'model',
+      parts: [
+        ...(msg.content ? [{ text: msg.content }] : []),
+        ...msg.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+      ],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parts of a plain message. Images by URL must be ones Gemini can fetch,
+ * such as files uploaded to its File API.
+ */
+export function toGeminiParts(msg: AIMessage): any[] {
+  return getContentParts(msg).map(part => {
+    if (part.type === 'text') return { text: part.text };
+    const { data, mediaType, url } = part.image;
+    return data
+      ? { inlineData: { mimeType: mediaType, data } }
+      : { fileData: { mimeType: mediaType, fileUri: url } };
+  });
+}
+
+export function parseGeminiToolCalls(parts: any[] | undefined): ToolCall[] | undefined {
+  const calls: ToolCall[] = (parts || [])
+    .filter(part => part.functionCall?.name)
+    .map(part => ({ id: generateToolCallId(), name: part.functionCall.name, arguments: part.functionCall.args || {} }));
+  return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Gemini takes an OpenAPI-style schema: upper-case types, `nullable`
+ * instead of a null type, and no `additionalProperties`
+ */
+export function toGeminiSchema(schema: JSONSchema): any {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find(t => t !== 'null');
+
+  const result: any = {};
+  if (type) result.type = type.toUpperCase();
+  if (types.includes('null')) result.nullable = true;
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum.map(String);
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+    );
+  }
+
+  return result;
+}
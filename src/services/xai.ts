@@ -1,10 +1,78 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { AIRequest, AIResponse, StreamChunk, AIMessage } from '@/types/ai';
-
-export class GrokAPI {
+import { AIRequest, AIResponse, StreamChunk, AIMessage, AIModel } from '@/types/ai';
+import { ProviderAdapter, ProviderAdapterConfig, ProviderDefinition, RateLimitStatus } from '@/types/provider';
+import { ProviderHTTPError, getHTTPErrorDetails, describeError } from './apiError';
+import { RateLimitTracker } from './rateLimit';
+import { SSEParser, readStream } from '@/utils/streamParser';
+import {
+  OpenAIToolCallStream,
+  getOpenAIReasoning,
+  getOpenAIReasoningTokens,
+  parseOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from './toolFormat';
+
+const grokModels: AIModel[] = [
+  {
+    provider: 'grok',
+    id: 'grok-beta',
+    name: 'Grok Beta',
+    maxTokens: 8192,
+    costPer1kTokens: { input: 0.0003, output: 0.0009 },
+    capabilities: ['text', 'tools', 'json'],
+    streaming: true,
+    tier: 'low',
+  },
+  {
+    provider: 'grok',
+    id: 'grok-1',
+    name: 'Grok 1',
+    maxTokens: 8192,
+    costPer1kTokens: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text'],
+    streaming: true,
+    tier: 'medium',
+    legacy: true,
+  },
+  {
+    provider: 'grok',
+    id: 'grok-2',
+    name: 'Grok 2',
+    maxTokens: 32768,
+    costPer1kTokens: { input: 0.001, output: 0.003 },
+    capabilities: ['text', 'tools', 'json', 'json_schema'],
+    streaming: true,
+    tier: 'high',
+  },
+  {
+    provider: 'grok',
+    id: 'grok-vision-beta',
+    name: 'Grok Vision Beta',
+    maxTokens: 8192,
+    costPer1kTokens: { input: 0.005, output: 0.015 },
+    capabilities: ['text', 'vision'],
+    streaming: true,
+    tier: 'medium',
+  },
+  {
+    provider: 'grok',
+    id: 'grok-3-mini',
+    name: 'Grok 3 Mini',
+    maxTokens: 131072,
+    costPer1kTokens: { input: 0.0003, output: 0.0005 },
+    capabilities: ['text', 'tools', 'reasoning', 'json', 'json_schema'],
+    streaming: true,
+    tier: 'low',
+  },
+];
+
+export class GrokAPI implements ProviderAdapter {
   private client: AxiosInstance;
   private apiKey: string = '';
   private config: any = {};
+  private rateLimits = new RateLimitTracker();
 
   constructor() {
     this.client = axios.create({
@@ -13,9 +81,15 @@ export class GrokAPI {
         'Content-Type': 'application/json',
       },
     });
+
+    // Every response carries the provider's current rate limits
+    this.client.interceptors.response.use(response => {
+      this.rateLimits.update(response.headers);
+      return response;
+    });
   }
 
-  configure(config: { apiKey: string; [key: string]: any }): void {
+  configure(config: ProviderAdapterConfig): void {
     this.apiKey = config.apiKey;
     this.config = config;
 
@@ -45,6 +119,9 @@ export class GrokAPI {
     const grokRequest = this.transformRequest(request);
     grokRequest.stream = true;
 
+    // Streams leave out the usage, including reasoning tokens, unless asked
+    grokRequest.stream_options = { include_usage: true };
+
     try {
       const response = await fetch('https://api.x.ai/v1/chat/completions', {
         method: 'POST',
@@ -57,62 +134,67 @@ export class GrokAPI {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await ProviderHTTPError.fromResponse(response);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      this.rateLimits.update(response.headers);
+
       let fullContent = '';
+      let reasoning = '';
+      let usage: any;
+      const toolCalls = new OpenAIToolCallStream();
+
+      await readStream(response, new SSEParser(), event => {
+        if (event.data === '[DONE]') {
+          onChunk({
+            delta: '',
+            finished: true,
+            provider: 'grok',
+            model: request.model || 'grok-beta',
+          });
+          return;
+        }
 
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+        try {
+          const parsed = JSON.parse(event.data);
+          const delta = parsed.choices?.[0]?.delta?.content;
+          const reasoningDelta = getOpenAIReasoning(parsed.choices?.[0]?.delta);
+          toolCalls.push(parsed.choices?.[0]?.delta);
+          usage = parsed.usage || usage;
+
+          if (reasoningDelta) {
+            reasoning += reasoningDelta;
+            onChunk({
+              delta: reasoningDelta,
+              kind: 'reasoning',
+              finished: false,
+              provider: 'grok',
+              model: request.model || 'grok-beta',
+            });
+          }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              onChunk({
-                delta: '',
-                finished: true,
-                provider: 'grok',
-                model: request.model || 'grok-beta',
-              });
-              continue;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-
-              if (delta) {
-                fullContent += delta;
-                onChunk({
-                  delta,
-                  finished: false,
-                  provider: 'grok',
-                  model: request.model || 'grok-beta',
-                });
-              }
-            } catch (e) {
-              // Ignore parsing errors for incomplete chunks
-            }
+          if (delta) {
+            fullContent += delta;
+            onChunk({
+              delta,
+              finished: false,
+              provider: 'grok',
+              model: request.model || 'grok-beta',
+            });
           }
+        } catch (e) {
+          // Skip events that are not JSON
         }
-      }
+      });
 
       return {
         provider: 'grok',
         model: request.model || 'grok-beta',
         content: fullContent,
         streaming: true,
+        toolCalls: toolCalls.getCalls(),
+        ...this.getUsage(request.model || 'grok-beta', usage),
+        reasoning: reasoning || undefined,
       };
     } catch (error) {
       return this.handleError(error as Error, request);
@@ -134,11 +216,7 @@ export class GrokAPI {
 
   async getModels(): Promise<string[]> {
     // Grok currently has limited models
-    return [
-      'grok-beta',
-      'grok-1',
-      'grok-2',
-    ];
+    return grokModels.map(model => model.id);
   }
 
   estimateTokens(text: string): number {
@@ -147,16 +225,17 @@ export class GrokAPI {
   }
 
   calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const costs: Record<string, { input: number; output: number }> = {
-      'grok-beta': { input: 0.0003, output: 0.0009 },
-      'grok-1': { input: 0.0005, output: 0.0015 },
-      'grok-2': { input: 0.001, output: 0.003 },
-    };
+    const modelInfo = grokModels.find(m => m.id === model) ||
+      grokModels.find(m => m.id === 'grok-beta')!;
 
-    const modelCost = costs[model] || costs['grok-beta'];
+    const modelCost = modelInfo.costPer1kTokens;
     return (inputTokens * modelCost.input + outputTokens * modelCost.output) / 1000;
   }
 
+  async getRateLimitStatus(): Promise<RateLimitStatus> {
+    return this.rateLimits.getStatus();
+  }
+
   private transformRequest(request: AIRequest): any {
     const messages = this.transformMessages(request.messages, request.systemPrompt);
 
@@ -175,6 +254,11 @@ export class GrokAPI {
       grokRequest.top_p = request.topP;
     }
 
+    // Grok only has low and high effort
+    if (request.reasoning && grokModels.find(m => m.id === grokRequest.model)?.capabilities.includes('reasoning')) {
+      grokRequest.reasoning_effort = request.reasoning.effort === 'low' ? 'low' : 'high';
+    }
+
     // Grok-specific: Add real-time search capability
     if (this.config.enableRealTime !== false) {
       grokRequest.tools = [
@@ -185,6 +269,18 @@ export class GrokAPI {
       ];
     }
 
+    if (request.tools?.length) {
+      grokRequest.tools = [...(grokRequest.tools || []), ...toOpenAITools(request.tools)];
+    }
+
+    const responseFormat = toOpenAIResponseFormat(
+      request.responseSchema,
+      grokModels.find(m => m.id === grokRequest.model)?.capabilities || []
+    );
+    if (responseFormat) {
+      grokRequest.response_format = responseFormat;
+    }
+
     // Add context if available
     if (request.context) {
       const contextMessage = this.buildContextMessage(request.context);
@@ -209,10 +305,7 @@ export class GrokAPI {
 
     // Transform messages
     messages.forEach(msg => {
-      transformed.push({
-        role: msg.role,
-        content: msg.content,
-      });
+      transformed.push(...toOpenAIMessages(msg));
     });
 
     return transformed;
@@ -263,27 +356,37 @@ export class GrokAPI {
       provider: 'grok',
       model: response.model || request.model || 'grok-beta',
       content,
-      usage: response.usage ? {
-        inputTokens: response.usage.prompt_tokens,
-        outputTokens: response.usage.completion_tokens,
-        totalTokens: response.usage.total_tokens,
-      } : undefined,
-      cost: response.usage ?
-        this.calculateCost(
-          response.model || request.model || 'grok-beta',
-          response.usage.prompt_tokens,
-          response.usage.completion_tokens
-        ) : undefined,
+      ...this.getUsage(response.model || request.model || 'grok-beta', response.usage),
       metadata: usedSearch ? { realTimeSearch: true } : undefined,
+      toolCalls: parseOpenAIToolCalls(choice?.message),
+      reasoning: getOpenAIReasoning(choice?.message),
+    };
+  }
+
+  private getUsage(model: string, usage: any): Pick<AIResponse, 'usage' | 'cost' | 'reasoningCost'> {
+    if (!usage) return {};
+
+    const reasoningTokens = getOpenAIReasoningTokens(usage);
+    return {
+      usage: {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        reasoningTokens,
+      },
+      cost: this.calculateCost(model, usage.prompt_tokens, usage.completion_tokens),
+      reasoningCost: reasoningTokens !== undefined ? this.calculateCost(model, 0, reasoningTokens) : undefined,
     };
   }
 
   private handleError(error: AxiosError | Error, request: AIRequest): AIResponse {
     let errorMessage = 'Unknown error occurred';
 
-    if ('response' in error && error.response) {
-      const status = error.response.status;
-      const data: any = error.response.data;
+    const details = getHTTPErrorDetails(error);
+
+    if (details) {
+      this.rateLimits.update(details.headers, details.status);
+      const { status, data } = details;
 
       switch (status) {
         case 401:
@@ -315,6 +418,7 @@ export class GrokAPI {
       model: request.model || 'grok-beta',
       content: '',
       error: errorMessage,
+      ...describeError(error),
     };
   }
 
@@ -375,4 +479,49 @@ export class GrokAPI {
       };
     }
   }
-}
\ No newline at end of file
+}
+
+export const grokProvider: ProviderDefinition = {
+  id: 'grok',
+  name: 'Grok',
+  description: 'Fast responses & social media',
+  icon: 'zap',
+  color: 'from-cyan-500 to-blue-600',
+  models: grokModels,
+  defaultModel: 'grok-beta',
+  taskStrengths: {
+    creative_writing: 0.6,
+    analysis: 0.6,
+    reasoning: 0.6,
+    code_generation: 0.6,
+    debugging: 0.5,
+    technical_docs: 0.6,
+    research: 0.7,
+    real_time_info: 0.9,
+    translation: 0.6,
+    summarization: 0.7,
+    casual_chat: 1.0,
+    data_extraction: 0.6,
+  },
+  defaultMetrics: { avgResponseTime: 1000, successRate: 0.95 },
+  routingRules: [
+    {
+      id: 'grok-casual',
+      name: 'Grok for Casual Chat',
+      pattern: /chat|casual|quick|simple|hey|hi/i,
+      provider: 'grok',
+      priority: 8,
+      taskTypes: ['casual_chat'],
+    },
+    {
+      id: 'grok-social',
+      name: 'Grok for Social Media',
+      pattern: /tweet|post|social|twitter|x\.com/i,
+      provider: 'grok',
+      priority: 10,
+      taskTypes: ['casual_chat'],
+    },
+  ],
+  apiKeyPattern: /^[\w-]{40,}$/,
+  createAdapter: () => new GrokAPI(),
+};
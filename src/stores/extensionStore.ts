@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { ExtensionSettings, Conversation, PromptTemplate } from '@/types/extension';
 import { AIProvider } from '@/types/ai';
+import { ProviderDefinition } from '@/types/provider';
 import storageService from '@/services/storage';
+import providerRegistry from '@/services/providerRegistry';
 
 interface ExtensionState {
   // Settings
@@ -28,6 +30,9 @@ interface ExtensionState {
   // Usage Stats
   loadUsageStats: () => Promise<any>;
 
+  // Providers
+  providers: ProviderDefinition[];
+
   // API Keys
   apiKeys: Record<AIProvider, boolean>;
   checkAPIKeys: () => Promise<void>;
@@ -158,22 +163,17 @@ export const useExtensionStore = create<ExtensionState>((set, get) => ({
     }
   },
 
+  // Providers
+  providers: providerRegistry.list(),
+
   // API Keys
-  apiKeys: {
-    claude: false,
-    chatgpt: false,
-    gemini: false,
-    grok: false,
-  },
+  apiKeys: Object.fromEntries(providerRegistry.ids().map(id => [id, false])),
   checkAPIKeys: async () => {
     try {
       const keys = await storageService.get('apiKeys', 'local');
-      const apiKeys = {
-        claude: !!keys?.claude,
-        chatgpt: !!keys?.chatgpt,
-        gemini: !!keys?.gemini,
-        grok: !!keys?.grok,
-      };
+      const apiKeys = Object.fromEntries(
+        providerRegistry.ids().map(id => [id, !!keys?.[id]])
+      );
       set({ apiKeys });
     } catch (error) {
       console.error('Failed to check API keys:', error);
@@ -187,4 +187,9 @@ export const useExtensionStore = create<ExtensionState>((set, get) => ({
   setCommandPaletteOpen: (open) => set({ commandPaletteOpen: open }),
   activeProvider: 'claude',
   setActiveProvider: (provider) => set({ activeProvider: provider }),
-}));
\ No newline at end of file
+}));
+
+// Re-render provider lists when custom providers are added or removed
+providerRegistry.subscribe(() => {
+  useExtensionStore.setState({ providers: providerRegistry.list() });
+});
@@ -1,16 +1,21 @@
-export type AIProvider = 'claude' | 'chatgpt' | 'gemini' | 'grok';
+// Provider ids come from the provider registry (see services/providerRegistry.ts)
+export type AIProvider = string;
+
+export type ModelTier = 'low' | 'medium' | 'high';
 
 export interface AIModel {
   provider: AIProvider;
   id: string;
   name: string;
-  maxTokens: number;
+  maxTokens: number; // Context window size
   costPer1kTokens: {
     input: number;
     output: number;
   };
-  capabilities: string[];
+  capabilities: string[]; // 'json' is JSON mode, 'json_schema' schema-constrained output
   streaming: boolean;
+  tier: ModelTier;
+  legacy?: boolean; // Retired or completions-only: kept for pricing old messages, never routed to
 }
 
 export interface AIMessage {
@@ -22,8 +27,71 @@ export interface AIMessage {
   tokens?: {
     input: number;
     output: number;
+    reasoning?: number; // Part of output
   };
   cost?: number;
+  failover?: FailoverInfo;
+  taskType?: TaskType;
+  autoRouted?: boolean;
+  feedback?: 'up' | 'down';
+  toolCalls?: ToolCall[]; // Tools an assistant message asked to run
+  toolResults?: ToolResult[]; // Results a user message sends back
+  data?: any; // Parsed answer to a request with a response schema
+  schemaErrors?: string[];
+  images?: ImageContent[]; // Sent along with the text; needs a vision model
+  reasoning?: string; // What the model thought before answering
+  reasoningSignature?: string; // Lets Claude verify reasoning sent back with tool calls
+}
+
+// An image given inline as base64 or by URL
+export interface ImageContent {
+  mediaType: string; // e.g. image/png
+  data?: string; // Base64, without the data: URL prefix
+  url?: string;
+}
+
+// One part of a message's content, in the order it's sent
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: ImageContent };
+
+// Provider-neutral tool description; each adapter maps it to its own format
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+}
+
+// Arguments of a tool, as a JSON Schema object
+export interface ToolParameters extends JSONSchema {
+  type: 'object';
+  properties: Record<string, JSONSchema>;
+}
+
+// JSON Schema for structured answers. Validation covers this subset.
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: any[];
+}
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface ToolCall {
+  id: string; // Generated when the provider doesn't supply one
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
 }
 
 export interface AIRequest {
@@ -36,8 +104,43 @@ export interface AIRequest {
   stream?: boolean;
   systemPrompt?: string;
   context?: PageContext;
+  priority?: RequestPriority; // Defaults to 'normal'
+  routingStrategy?: RoutingStrategy; // Overrides the global strategy
+  allowFailover?: boolean; // Defaults to true
+  tools?: ToolDefinition[]; // Dropped for models without the 'tools' capability
+  responseSchema?: JSONSchema; // Ask for JSON matching this schema instead of prose
+  reasoning?: ReasoningOptions; // Dropped for models without the 'reasoning' capability
+  historySummary?: HistorySummary; // Stands in for the first messages
+}
+
+// Older turns of a conversation folded into a summary
+export interface HistorySummary {
+  text: string;
+  messageCount: number; // Leading messages it stands in for
+}
+
+// How a request was fitted into its model's context window, in tokens
+export interface ContextWindowInfo {
+  limit: number;
+  system: number; // System prompt, tools and the history summary
+  context: number; // Page context
+  history: number; // Messages sent in full
+  output: number; // Reserved for the answer
+  firstMessageInContext: number; // Earlier messages were summarized or dropped
+  summary?: HistorySummary;
 }
 
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+// How hard a reasoning model thinks before it answers
+export interface ReasoningOptions {
+  effort: ReasoningEffort;
+  budgetTokens?: number; // Overrides the effort for providers that take a token budget
+}
+
+// Queued requests run in this order: chat ahead of background jobs
+export type RequestPriority = 'interactive' | 'normal' | 'bulk';
+
 export interface AIResponse {
   provider: AIProvider;
   model: string;
@@ -46,21 +149,87 @@ export interface AIResponse {
     inputTokens: number;
     outputTokens: number;
     totalTokens: number;
+    reasoningTokens?: number; // Part of outputTokens
   };
   cost?: number;
+  reasoningCost?: number; // Part of cost
   error?: string;
+  errorCode?: AIErrorCode;
+  retryAfter?: number; // Milliseconds the provider asked us to wait
+  retries?: number;
+  failover?: FailoverInfo; // Set when another provider answered instead
+  taskType?: TaskType;
+  autoRouted?: boolean; // The router picked the provider
   streaming?: boolean;
+  responseTime?: number; // Milliseconds from sending to the last byte, retries included
+  timeToFirstToken?: number; // Milliseconds until the first streamed chunk
+  toolCalls?: ToolCall[]; // Tools the model wants run before it answers
+  toolResults?: ToolResult[]; // Tools that were run to produce the answer
+  data?: any; // Parsed JSON when the request had a response schema
+  schemaErrors?: string[]; // Why the answer still didn't match after repair attempts
+  reasoning?: string; // Thinking the model showed, kept apart from the answer
+  reasoningSignature?: string;
+  contextWindow?: ContextWindowInfo;
+}
+
+export interface FailoverAttempt {
+  provider: AIProvider;
+  model: string;
+  error: string;
+  errorCode?: AIErrorCode;
+}
+
+export interface FailoverInfo {
+  requestedProvider: AIProvider;
+  reason: AIErrorCode;
+  attempts: FailoverAttempt[]; // Failed attempts, in the order they were made
 }
 
+export type AIErrorCode =
+  | 'vault_locked'
+  | 'missing_api_key'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'server_error'
+  | 'timeout'
+  | 'network_error'
+  | 'auth_error'
+  | 'bad_request'
+  | 'cancelled'
+  | 'unknown';
+
 export interface PageContext {
   url: string;
   title: string;
   selection?: string;
   visibleText?: string;
   fullHtml?: string;
+  pageType?: string; // From DOMParser.detectPageType
   metadata?: Record<string, any>;
 }
 
+// Part of a page's main content, from one heading to the next
+export interface PageSection {
+  title: string;
+  text: string;
+}
+
+// A page too long to send whole, summarized chunk by chunk
+export interface PageSummaryRequest {
+  provider: AIProvider;
+  model?: string;
+  url: string;
+  title: string;
+  sections: PageSection[];
+  instructions?: string; // What to focus on, from the user
+}
+
+export interface PageSummaryProgress {
+  stage: 'map' | 'reduce' | 'final';
+  completed: number;
+  total: number;
+}
+
 export interface AIProviderConfig {
   provider: AIProvider;
   apiKey: string;
@@ -85,6 +254,41 @@ export interface AIRoutingRule {
   taskTypes: TaskType[];
 }
 
+// Routing rule stored in settings. Rules are checked in list order and the
+// first enabled rule whose conditions all hold fires.
+export interface UserRoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RoutingRuleConditions;
+  provider: AIProvider;
+  model?: string;
+  taskType?: TaskType;
+}
+
+export interface RoutingRuleConditions {
+  promptPattern?: string; // Case-insensitive regular expression
+  urlPattern?: string; // Case-insensitive regular expression
+  domains?: string[]; // Also matches subdomains
+  pageTypes?: string[];
+  minTokens?: number;
+  maxTokens?: number;
+}
+
+export interface RoutingExplanation {
+  recommended: AIProvider;
+  recommendedModel: string;
+  scores: RoutingScore[];
+  rejected: RejectedModel[];
+  taskType: TaskType;
+  classification: TaskClassification;
+  matchedRule?: UserRoutingRule;
+  strategy: RoutingStrategy;
+  weights: RoutingWeights;
+  balancedRecommended: RoutingDecision; // What the balanced strategy would pick
+  explanation: string;
+}
+
 export type TaskType =
   | 'creative_writing'
   | 'analysis'
@@ -99,19 +303,100 @@ export type TaskType =
   | 'casual_chat'
   | 'data_extraction';
 
+// Signals the router learns provider preferences from
+export type PreferenceSignal = 'thumbs_up' | 'thumbs_down' | 'manual_switch' | 'regenerate' | 'judge_win' | 'judge_loss';
+
+export interface RoutingPreference {
+  score: number; // Positive favours the provider for the task type
+  updatedAt: number;
+}
+
+export type RoutingPreferences = Partial<Record<TaskType, Record<AIProvider, RoutingPreference>>>;
+
 export interface RoutingScore {
   provider: AIProvider;
+  model: string;
   score: number;
-  factors: {
-    capabilityMatch: number;
-    userPreference: number;
-    costEfficiency: number;
-    responseSpeed: number;
-  };
+  factors: RoutingWeights;
+  belowQualityBar?: boolean; // Only picked when no provider meets the bar
+}
+
+// Provider and model the router picked
+export interface RoutingDecision {
+  provider: AIProvider;
+  model: string;
+}
+
+// A model the router ruled out before scoring
+export interface RejectedModel {
+  provider: AIProvider;
+  model: string;
+  reason: string;
+}
+
+// One answer put in front of the judge
+export interface JudgeCandidate {
+  provider: AIProvider;
+  model: string;
+  content: string;
+}
+
+export interface JudgeScore {
+  provider: AIProvider;
+  model: string;
+  scores: Record<string, number>; // Rubric criterion to a 1-10 score
+  overall: number; // 1-10
+  comment: string;
+}
+
+export interface JudgeVerdict {
+  judge: RoutingDecision;
+  rankings: JudgeScore[]; // Best first
+  disagreements: string[]; // Points on which the answers contradict each other
+  mergedAnswer: string; // Best-of answer crediting the providers it draws on
+  taskType?: TaskType;
+}
+
+export type TaskClassifierId = 'keywords' | 'embeddings';
+
+export interface TaskClassification {
+  taskType: TaskType;
+  confidence: number; // 0-1
+  classifier: TaskClassifierId | 'rule';
+}
+
+/**
+ * Works out what kind of task a prompt is. Returns null when it can't tell,
+ * so the router can fall back to another classifier.
+ */
+export interface TaskClassifier {
+  id: TaskClassifierId;
+  classify(text: string): Promise<TaskClassification | null>;
+}
+
+export type RoutingStrategy = 'balanced' | 'cheapest' | 'fastest' | 'best_quality' | 'custom';
+
+// Relative weight of each routing factor. Also used for the factor values.
+export interface RoutingWeights {
+  capabilityMatch: number;
+  userPreference: number;
+  costEfficiency: number;
+  responseSpeed: number;
+}
+
+/**
+ * Where streamed chunks for a request are delivered. Requests from content
+ * scripts carry their tab and frame; extension pages such as the popup and
+ * options page have no tab and receive chunks through runtime messaging.
+ */
+export interface StreamTarget {
+  tabId?: number;
+  frameId?: number;
 }
 
 export interface StreamChunk {
   delta: string;
+  kind?: 'content' | 'reasoning'; // Defaults to content
   finished: boolean;
   provider: AIProvider;
   model: string;
@@ -1,4 +1,23 @@
-import { AIProvider, AIMessage, PageContext } from './ai';
+import {
+  AIProvider,
+  AIMessage,
+  AIRequest,
+  AIResponse,
+  AIErrorCode,
+  PageContext,
+  StreamChunk,
+  TaskType,
+  TaskClassifierId,
+  UserRoutingRule,
+  RoutingStrategy,
+  JSONSchema,
+  ReasoningEffort,
+  HistorySummary,
+  PageSummaryProgress,
+  PageSummaryRequest,
+  RoutingWeights,
+} from './ai';
+import { CustomProviderConfig } from './provider';
 
 export interface ExtensionMessage {
   type: MessageType;
@@ -10,6 +29,7 @@ export interface ExtensionMessage {
 export type MessageType =
   | 'TOGGLE_SIDEBAR'
   | 'OPEN_COMMAND_PALETTE'
+  | 'OPEN_COMPARISON_MODE'
   | 'SEND_TO_AI'
   | 'GET_CONTEXT'
   | 'UPDATE_SETTINGS'
@@ -21,8 +41,48 @@ export type MessageType =
   | 'PROVIDER_CHANGED'
   | 'STREAM_CHUNK'
   | 'STREAM_END'
+  | 'GET_VAULT_STATUS'
+  | 'UNLOCK_VAULT'
+  | 'LOCK_VAULT'
+  | 'CHANGE_MASTER_PASSWORD'
+  | 'DISCOVER_MODELS'
+  | 'CANCEL_REQUEST'
+  | 'GET_RATE_LIMITS'
+  | 'GET_METRICS'
+  | 'RESET_METRICS'
+  | 'ROUTING_FEEDBACK'
+  | 'GET_ROUTING_PREFERENCES'
+  | 'RESET_ROUTING_PREFERENCES'
+  | 'EXPLAIN_ROUTING'
+  | 'JUDGE_ANSWERS'
+  | 'RUN_PAGE_TOOL'
+  | 'CAPTURE_VISIBLE_TAB'
   | 'ERROR';
 
+// Frames exchanged over a streaming port. Every frame carries the request ID
+// chosen by the client; `error` and `end` are terminal.
+export type StreamClientFrame =
+  | { type: 'start'; requestId: string; request: AIRequest }
+  | { type: 'summarize_page'; requestId: string; request: PageSummaryRequest }
+  | { type: 'cancel'; requestId: string };
+
+export type StreamServerFrame =
+  | { type: 'start'; requestId: string } // The worker accepted the request
+  | { type: 'queued'; requestId: string; position: number }
+  | { type: 'progress'; requestId: string; progress: PageSummaryProgress }
+  | { type: 'chunk'; requestId: string; chunk: StreamChunk }
+  | { type: 'usage'; requestId: string; usage: NonNullable<AIResponse['usage']>; cost?: number }
+  | { type: 'error'; requestId: string; error: string; errorCode?: AIErrorCode }
+  | { type: 'end'; requestId: string; response: AIResponse };
+
+// Part of the viewport to screenshot, in CSS pixels
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface Conversation {
   id: string;
   title: string;
@@ -37,6 +97,11 @@ export interface Conversation {
     output: number;
   };
   tags?: string[];
+  routingStrategy?: RoutingStrategy;
+  responseSchema?: JSONSchema; // Answers come back as JSON matching this
+  reasoningEffort?: ReasoningEffort; // Reasoning models think this hard; off when unset
+  historySummary?: HistorySummary; // Sent instead of the messages it covers
+  firstMessageInContext?: number; // Messages before this weren't sent in full last time
 }
 
 export interface PromptTemplate {
@@ -93,6 +158,8 @@ export interface SidebarState {
 export interface ExtensionSettings {
   general: GeneralSettings;
   providers: Record<AIProvider, ProviderSettings>;
+  customProviders: CustomProviderConfig[];
+  routing: RoutingSettings;
   privacy: PrivacySettings;
   advanced: AdvancedSettings;
   appearance: AppearanceSettings;
@@ -116,6 +183,30 @@ export interface ProviderSettings {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  maxRetries?: number;
+  timeout?: number; // Milliseconds per attempt
+  requestsPerMinute?: number; // Defaults to the global limit
+}
+
+export interface RoutingSettings {
+  failoverEnabled: boolean;
+  // Providers to try in order when one fails with a retryable error. Task
+  // types without their own chain use `default`.
+  failoverChains: Partial<Record<TaskType | 'default', AIProvider[]>>;
+  rules: UserRoutingRule[]; // In priority order
+  strategy: RoutingStrategy;
+  customWeights: RoutingWeights; // Used by the custom strategy
+  qualityBar: number; // Minimum capability match, 0-1, for the cheapest strategy
+  classifier: TaskClassifierId; // Embeddings fall back to keywords without a provider
+  judge: JudgeSettings;
+}
+
+// Model that scores and merges answers in comparison mode
+export interface JudgeSettings {
+  provider: AIProvider;
+  model?: string; // Defaults to the provider's configured model
+  rubric: string[]; // Criteria each answer is scored on
+  learnFromVerdicts: boolean; // Verdicts adjust routing preferences
 }
 
 export interface PrivacySettings {
@@ -124,6 +215,8 @@ export interface PrivacySettings {
   clearHistoryOnClose: boolean;
   anonymousAnalytics: boolean;
   contextSharing: 'none' | 'selection' | 'visible' | 'full';
+  pageTools: boolean; // Models may read headings, tables, links and code on the page
+  autoLockMinutes: number; // 0 keeps the vault unlocked until the browser closes
 }
 
 export interface AdvancedSettings {
@@ -136,8 +229,13 @@ export interface AdvancedSettings {
   cacheResponses: boolean;
   cacheTTL: number;
   debugLogging: boolean;
+  historyOverflow: HistoryOverflow;
 }
 
+// What happens to the oldest turns once a conversation outgrows the model's
+// context window
+export type HistoryOverflow = 'summarize' | 'drop';
+
 export interface AppearanceSettings {
   theme: 'light' | 'dark' | 'auto';
   fontSize: 'small' | 'medium' | 'large';
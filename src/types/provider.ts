@@ -0,0 +1,109 @@
+import { AIProvider, AIModel, AIRequest, AIResponse, AIErrorCode, AIRoutingRule, StreamChunk, TaskType } from './ai';
+
+export interface ProviderAdapterConfig {
+  apiKey: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  [key: string]: any;
+}
+
+export interface RateLimitWindow {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+export interface RateLimitStatus {
+  requests?: RateLimitWindow;
+  tokens?: RateLimitWindow;
+  updatedAt: number; // 0 until the provider has reported its limits
+}
+
+export interface ProviderMetrics {
+  avgResponseTime: number;
+  successRate: number;
+}
+
+// One finished request to a model
+export interface MetricSample {
+  timestamp: number;
+  latency: number; // Milliseconds
+  timeToFirstToken?: number; // Streamed requests only
+  tokensPerSecond?: number;
+  errorCode?: AIErrorCode; // Unset on success
+}
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+}
+
+// Rolling summary over a model's or provider's recent samples
+export interface MeasuredMetrics {
+  requests: number;
+  successRate: number;
+  errorsByCode: Partial<Record<AIErrorCode, number>>;
+  latency?: Percentiles; // Successful requests only
+  timeToFirstToken?: Percentiles;
+  tokensPerSecond?: Percentiles;
+}
+
+/**
+ * Contract every AI backend implements so the background worker can talk to
+ * it without knowing which vendor is behind it
+ */
+export interface ProviderAdapter {
+  configure(config: ProviderAdapterConfig): void;
+  sendRequest(request: AIRequest, signal?: AbortSignal): Promise<AIResponse>;
+  streamRequest(
+    request: AIRequest,
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse>;
+  validateKey(): Promise<boolean>;
+  getModels(): Promise<string[]>;
+  estimateTokens(text: string): number;
+  calculateCost(model: string, inputTokens: number, outputTokens: number): number;
+  getRateLimitStatus(): Promise<RateLimitStatus>;
+  embedText?(text: string): Promise<number[]>; // Empty on failure
+}
+
+/**
+ * Everything the extension needs to know about a provider: display info for
+ * the UI, model catalog and pricing, routing hints and an adapter factory
+ */
+export interface ProviderDefinition {
+  id: AIProvider;
+  name: string;
+  description: string;
+  icon: string; // Lucide icon name
+  color: string; // Tailwind gradient classes
+  models: AIModel[];
+  defaultModel: string;
+  taskStrengths: Record<TaskType, number>;
+  defaultMetrics: ProviderMetrics; // Baseline until real usage is recorded
+  routingRules: AIRoutingRule[];
+  apiKeyPattern?: RegExp;
+  requiresApiKey?: boolean; // Defaults to true
+  custom?: boolean; // Added by the user rather than built in
+  createAdapter: () => ProviderAdapter;
+}
+
+/**
+ * A user-defined OpenAI-compatible endpoint such as Ollama, LM Studio,
+ * vLLM or LiteLLM
+ */
+export interface CustomProviderConfig {
+  id: AIProvider;
+  name: string;
+  baseUrl: string; // Up to and including the version segment, e.g. http://localhost:11434/v1
+  authHeader?: string; // Header carrying the API key, defaults to Authorization: Bearer
+  requiresApiKey: boolean;
+  models: string[];
+  defaultModel: string;
+  contextWindow: number;
+  pricing: {
+    input: number; // Cost per 1K input tokens in USD
+    output: number; // Cost per 1K output tokens in USD
+  };
+}
@@ -1,5 +1,6 @@
 import { ExtensionSettings, Conversation, PromptTemplate, SidebarState } from './extension';
-import { AIProvider } from './ai';
+import { AIProvider, RoutingPreferences, TaskType } from './ai';
+import { MetricSample } from './provider';
 
 export interface StorageData {
   settings: ExtensionSettings;
@@ -7,8 +8,22 @@ export interface StorageData {
   promptTemplates: PromptTemplate[];
   sidebarState: SidebarState;
   apiKeys: EncryptedAPIKeys;
+  vault: VaultConfig;
   usage: UsageStats;
   cache: ResponseCache;
+  routingPreferences: RoutingPreferences;
+  taskCentroids: TaskCentroidCache;
+  metrics: Record<string, MetricSample[]>; // Keyed by provider/model
+}
+
+// Seed set centroids for each embedding source, as their vectors aren't
+// comparable with each other
+export interface TaskCentroidCache {
+  [sourceId: string]: {
+    version: number; // Seed set version the centroids were built from
+    centroids: Partial<Record<TaskType, number[]>>;
+    createdAt: number;
+  };
 }
 
 export interface EncryptedAPIKeys {
@@ -19,11 +34,25 @@ export interface EncryptedAPIKeys {
   };
 }
 
+export interface VaultConfig {
+  salt: string;
+  verifier: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface VaultStatus {
+  initialized: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+}
+
 export interface UsageStats {
   totalRequests: number;
   totalTokens: {
     input: number;
     output: number;
+    reasoning?: number; // Part of output
   };
   totalCost: number;
   byProvider: Record<AIProvider, ProviderUsage>;
@@ -37,6 +66,7 @@ export interface ProviderUsage {
   tokens: {
     input: number;
     output: number;
+    reasoning?: number; // Part of output
   };
   cost: number;
   errors: number;
@@ -1,4 +1,5 @@
-import { AIProvider } from '@/types/ai';
+import { AIProvider, ModelTier } from '@/types/ai';
+import providerRegistry from '@/services/providerRegistry';
 
 interface ModelPricing {
   input: number;  // Cost per 1K input tokens in USD
@@ -9,35 +10,6 @@ interface ModelPricing {
  * Cost calculation utilities for AI providers
  */
 export class CostCalculator {
-  private static readonly pricing: Record<string, ModelPricing> = {
-    // Claude models (Anthropic)
-    'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
-    'claude-3-sonnet-20240229': { input: 0.003, output: 0.015 },
-    'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
-    'claude-2.1': { input: 0.008, output: 0.024 },
-    'claude-2.0': { input: 0.008, output: 0.024 },
-    'claude-instant-1.2': { input: 0.0008, output: 0.0024 },
-
-    // OpenAI GPT models
-    'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-4-32k': { input: 0.06, output: 0.12 },
-    'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
-    'gpt-3.5-turbo-16k': { input: 0.003, output: 0.004 },
-    'gpt-3.5-turbo-instruct': { input: 0.0015, output: 0.002 },
-
-    // Google Gemini models
-    'gemini-pro': { input: 0.0005, output: 0.0015 },
-    'gemini-pro-vision': { input: 0.0005, output: 0.0015 },
-    'gemini-ultra': { input: 0.001, output: 0.003 },
-
-    // xAI Grok models
-    'grok-beta': { input: 0.0003, output: 0.0009 },
-    'grok-1': { input: 0.0005, output: 0.0015 },
-    'grok-2': { input: 0.001, output: 0.003 },
-  };
-
   /**
    * Calculate cost for a specific request
    */
@@ -58,16 +30,19 @@ export class CostCalculator {
    * Get pricing for a specific model
    */
   static getPricing(model: string): ModelPricing {
-    // Try exact match first
-    if (this.pricing[model]) {
-      return this.pricing[model];
+    // Try exact or versioned match first
+    const modelInfo = providerRegistry.findModel(model);
+    if (modelInfo) {
+      return modelInfo.costPer1kTokens;
     }
 
-    // Try partial match
-    for (const [key, value] of Object.entries(this.pricing)) {
-      if (model.toLowerCase().includes(key.toLowerCase().split('-')[0])) {
-        return value;
-      }
+    // Fall back to the first model of the same family
+    const family = model.toLowerCase().split('-')[0];
+    const sibling = providerRegistry.list()
+      .flatMap(definition => definition.models)
+      .find(m => m.id.toLowerCase().startsWith(family));
+    if (sibling) {
+      return sibling.costPer1kTokens;
     }
 
     // Default pricing (GPT-3.5 level)
@@ -215,35 +190,27 @@ export class CostCalculator {
   static recommendModel(
     inputTokens: number,
     outputTokens: number,
-    minQuality: 'low' | 'medium' | 'high' = 'medium'
+    minQuality: ModelTier = 'medium'
   ): {
     model: string;
     provider: AIProvider;
     estimatedCost: number;
     reason: string;
   } {
-    const qualityTiers = {
-      low: ['gpt-3.5-turbo', 'claude-instant-1.2', 'gemini-pro', 'grok-beta'],
-      medium: ['gpt-4-turbo-preview', 'claude-3-sonnet-20240229', 'gemini-pro', 'grok-1'],
-      high: ['gpt-4', 'claude-3-opus-20240229', 'gemini-ultra', 'grok-2'],
-    };
+    const models = providerRegistry.list()
+      .flatMap(definition => definition.models)
+      .filter(m => m.tier === minQuality);
 
-    const models = qualityTiers[minQuality];
-    let bestModel = models[0];
+    let bestModel = models[0]?.id || '';
     let bestCost = Infinity;
-    let bestProvider: AIProvider = 'claude';
+    let bestProvider: AIProvider = models[0]?.provider || '';
 
     for (const model of models) {
-      const cost = this.calculate(model, inputTokens, outputTokens);
+      const cost = this.calculate(model.id, inputTokens, outputTokens);
       if (cost < bestCost) {
         bestCost = cost;
-        bestModel = model;
-
-        // Determine provider
-        if (model.includes('gpt')) bestProvider = 'chatgpt';
-        else if (model.includes('claude')) bestProvider = 'claude';
-        else if (model.includes('gemini')) bestProvider = 'gemini';
-        else if (model.includes('grok')) bestProvider = 'grok';
+        bestModel = model.id;
+        bestProvider = model.provider;
       }
     }
 
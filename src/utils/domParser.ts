@@ -79,6 +79,34 @@ export class DOMParser {
     return this.extractVisibleText();
   }
 
+  /**
+   * Split the main content at its headings. Text before the first heading
+   * goes under the page title.
+   */
+  static extractMainSections(): Array<{ title: string; text: string }> {
+    const text = this.extractMainContent();
+    const sections: Array<{ title: string; text: string }> = [];
+
+    let title = document.title;
+    let start = 0;
+    let cursor = 0;
+
+    // Headings appear in the text in document order; ones outside the main
+    // content aren't found and are skipped
+    for (const heading of this.extractHeadings()) {
+      const index = text.indexOf(heading.text, cursor);
+      if (index === -1) continue;
+
+      sections.push({ title, text: text.substring(start, index).trim() });
+      title = heading.text;
+      start = index + heading.text.length;
+      cursor = start;
+    }
+    sections.push({ title, text: text.substring(start).trim() });
+
+    return sections.filter(section => section.text);
+  }
+
   /**
    * Extract structured data from the page
    */
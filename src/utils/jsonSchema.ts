@@ -0,0 +1,103 @@
+/**
+ * Parsing and validation of structured (JSON) answers
+ */
+
+import { JSONSchema, JSONSchemaType } from '@/types/ai';
+
+// Errors reported back to the model; more than this is just noise
+const MAX_ERRORS = 10;
+
+export class JSONSchemaValidator {
+  /**
+   * Parse JSON out of a model's answer. Models often wrap it in a code
+   * fence or a sentence, so the outermost object or array is used.
+   */
+  static parse(content: string): { value?: any; error?: string } {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const text = (fenced ? fenced[1] : content).trim();
+
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      return { error: 'The answer contains no JSON' };
+    }
+
+    try {
+      return { value: JSON.parse(text.slice(start, end + 1)) };
+    } catch (error) {
+      return { error: `The answer is not valid JSON: ${(error as Error).message}` };
+    }
+  }
+
+  /**
+   * Check a value against a schema, returning one message per problem
+   */
+  static validate(value: any, schema: JSONSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+    this.check(value, schema, path, errors);
+    return errors.slice(0, MAX_ERRORS);
+  }
+
+  /**
+   * Instruction telling a model to answer with JSON matching the schema
+   */
+  static describe(schema: JSONSchema): string {
+    return `Respond only with JSON that matches this JSON Schema, without any other text:\n${JSON.stringify(schema, null, 2)}`;
+  }
+
+  private static check(value: any, schema: JSONSchema, path: string, errors: string[]): void {
+    if (errors.length >= MAX_ERRORS) return;
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.isType(value, type))) {
+        errors.push(`${path} should be ${types.join(' or ')}, got ${this.typeOf(value)}`);
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this.check(item, schema.items!, `${path}[${index}]`, errors));
+    }
+
+    if (this.isType(value, 'object')) {
+      schema.required?.forEach(key => {
+        if (!(key in value)) errors.push(`${path}.${key} is required`);
+      });
+
+      Object.entries(value).forEach(([key, item]) => {
+        const property = schema.properties?.[key];
+        if (property) {
+          this.check(item, property, `${path}.${key}`, errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      });
+    }
+  }
+
+  private static isType(value: any, type: JSONSchemaType): boolean {
+    switch (type) {
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Page screenshots for attaching to a chat, taken from the content script.
+ * The extension's own UI is hidden while the tab is captured.
+ */
+
+import { ImageContent } from '@/types/ai';
+import { CaptureRegion } from '@/types/extension';
+
+const EXTENSION_UI_IDS = ['multi-ai-sidebar-container', 'mai-action-buttons', 'mai-highlight-overlay'];
+
+// Smaller drags are treated as clicks
+const MIN_REGION_SIZE = 8;
+
+export class Screenshot {
+  /**
+   * Capture the visible part of the page, or a region of it
+   */
+  static async capture(region?: CaptureRegion): Promise<ImageContent> {
+    const restore = this.hideExtensionUI();
+    try {
+      return await this.captureVisibleTab(region);
+    } finally {
+      restore();
+    }
+  }
+
+  /**
+   * Let the user drag out a region of the page and capture it. Resolves to
+   * null if they press Escape or just click.
+   */
+  static async captureRegion(): Promise<ImageContent | null> {
+    const restore = this.hideExtensionUI();
+    try {
+      const region = await this.selectRegion();
+      return region ? await this.captureVisibleTab(region) : null;
+    } finally {
+      restore();
+    }
+  }
+
+  private static async captureVisibleTab(region?: CaptureRegion): Promise<ImageContent> {
+    // Wait for the page to repaint without our UI
+    await new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve, 50)));
+
+    const response = await chrome.runtime.sendMessage({
+      type: 'CAPTURE_VISIBLE_TAB',
+      payload: { region, viewportWidth: window.innerWidth },
+    });
+
+    if (!response || response.error) {
+      throw new Error(response?.error || 'The screenshot could not be taken');
+    }
+    return response.image;
+  }
+
+  private static hideExtensionUI(): () => void {
+    const elements = EXTENSION_UI_IDS
+      .map(id => document.getElementById(id))
+      .filter((element): element is HTMLElement => !!element && element.style.visibility !== 'hidden');
+
+    elements.forEach(element => (element.style.visibility = 'hidden'));
+    return () => elements.forEach(element => (element.style.visibility = ''));
+  }
+
+  private static selectRegion(): Promise<CaptureRegion | null> {
+    return new Promise(resolve => {
+      const overlay = document.createElement('div');
+      overlay.style.cssText = `
+        position: fixed;
+        inset: 0;
+        cursor: crosshair;
+        background: rgba(0, 0, 0, 0.2);
+        z-index: 2147483647;
+      `;
+
+      const box = document.createElement('div');
+      box.style.cssText = `
+        position: absolute;
+        display: none;
+        background: rgba(59, 130, 246, 0.1);
+        border: 2px solid rgba(59, 130, 246, 0.8);
+      `;
+      overlay.appendChild(box);
+
+      let start: { x: number; y: number } | null = null;
+
+      const getRegion = (event: MouseEvent): CaptureRegion => ({
+        x: Math.min(start!.x, event.clientX),
+        y: Math.min(start!.y, event.clientY),
+        width: Math.abs(event.clientX - start!.x),
+        height: Math.abs(event.clientY - start!.y),
+      });
+
+      const finish = (region: CaptureRegion | null) => {
+        overlay.remove();
+        document.removeEventListener('keydown', handleKeyDown, true);
+        resolve(region);
+      };
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          event.stopPropagation();
+          finish(null);
+        }
+      };
+
+      overlay.addEventListener('mousedown', (event) => {
+        event.preventDefault();
+        start = { x: event.clientX, y: event.clientY };
+      });
+
+      overlay.addEventListener('mousemove', (event) => {
+        if (!start) return;
+        const { x, y, width, height } = getRegion(event);
+        box.style.display = 'block';
+        box.style.left = `${x}px`;
+        box.style.top = `${y}px`;
+        box.style.width = `${width}px`;
+        box.style.height = `${height}px`;
+      });
+
+      overlay.addEventListener('mouseup', (event) => {
+        if (!start) return;
+        const region = getRegion(event);
+        finish(region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE ? region : null);
+      });
+
+      document.addEventListener('keydown', handleKeyDown, true);
+      document.body.appendChild(overlay);
+    });
+  }
+}
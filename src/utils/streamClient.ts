@@ -0,0 +1,95 @@
+import { AIErrorCode, AIRequest, AIResponse, PageSummaryProgress, PageSummaryRequest, StreamChunk } from '@/types/ai';
+import { StreamClientFrame, StreamServerFrame } from '@/types/extension';
+
+export const STREAM_PORT_NAME = 'ai-stream';
+
+export interface StreamHandlers {
+  onStart?: () => void; // The worker accepted the request
+  onQueued?: (position: number) => void; // Waiting behind other requests
+  onProgress?: (progress: PageSummaryProgress) => void; // Page summaries only
+  onChunk?: (chunk: StreamChunk) => void;
+  onUsage?: (usage: NonNullable<AIResponse['usage']>, cost?: number) => void;
+  onError?: (error: string, errorCode?: AIErrorCode) => void;
+  onEnd?: (response: AIResponse) => void;
+}
+
+export interface StreamHandle {
+  requestId: string;
+  cancel: () => void;
+}
+
+/**
+ * Stream a request through the background worker over a dedicated port.
+ * Works from content scripts and extension pages alike. Cancelling, or the
+ * page going away, closes the port and aborts the upstream request.
+ */
+export function streamAIRequest(request: AIRequest, handlers: StreamHandlers): StreamHandle {
+  return openStream(requestId => ({ type: 'start', requestId, request: { ...request, stream: true } }), handlers);
+}
+
+/**
+ * Summarize a long page section by section. Progress is reported while the
+ * sections are summarized, then the combined summary streams in.
+ */
+export function streamPageSummary(request: PageSummaryRequest, handlers: StreamHandlers): StreamHandle {
+  return openStream(requestId => ({ type: 'summarize_page', requestId, request }), handlers);
+}
+
+function openStream(createStart: (requestId: string) => StreamClientFrame, handlers: StreamHandlers): StreamHandle {
+  const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const port = chrome.runtime.connect({ name: STREAM_PORT_NAME });
+  let finished = false;
+
+  const finish = () => {
+    finished = true;
+    port.disconnect();
+  };
+
+  port.onMessage.addListener((frame: StreamServerFrame) => {
+    if (frame.requestId !== requestId || finished) return;
+
+    switch (frame.type) {
+      case 'start':
+        handlers.onStart?.();
+        break;
+      case 'queued':
+        handlers.onQueued?.(frame.position);
+        break;
+      case 'progress':
+        handlers.onProgress?.(frame.progress);
+        break;
+      case 'chunk':
+        handlers.onChunk?.(frame.chunk);
+        break;
+      case 'usage':
+        handlers.onUsage?.(frame.usage, frame.cost);
+        break;
+      case 'error':
+        finish();
+        handlers.onError?.(frame.error, frame.errorCode);
+        break;
+      case 'end':
+        finish();
+        handlers.onEnd?.(frame.response);
+        break;
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    if (finished) return;
+    finished = true;
+    handlers.onError?.('Connection to the extension was lost');
+  });
+
+  port.postMessage(createStart(requestId));
+
+  return {
+    requestId,
+    cancel: () => {
+      if (finished) return;
+      const cancel: StreamClientFrame = { type: 'cancel', requestId };
+      port.postMessage(cancel);
+      finish();
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JSONArrayParser, NDJSONParser, SSEEvent, SSEParser, StreamParser, readStream } from './streamParser';
+
+// Recorded provider responses. They contain multi-byte characters (accents,
+// CJK, emoji) so some split points fall inside a character.
+function loadFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, '__fixtures__', name)));
+}
+
+// A response whose body is read in the given pieces
+function responseOf(pieces: Uint8Array[]): Response {
+  let index = 0;
+  const reader = {
+    read: async () => (index < pieces.length
+      ? { done: false, value: pieces[index++] }
+      : { done: true, value: undefined }),
+  };
+  return { body: { getReader: () => reader } } as unknown as Response;
+}
+
+async function replay<T>(createParser: () => StreamParser<T>, pieces: Uint8Array[]): Promise<T[]> {
+  const items: T[] = [];
+  await readStream(responseOf(pieces), createParser(), item => items.push(item));
+  return items;
+}
+
+// The fixture read whole, split in two at every byte offset, and one byte at
+// a time must all produce the same items
+async function expectSplitInvariant<T>(createParser: () => StreamParser<T>, bytes: Uint8Array): Promise<T[]> {
+  const expected = await replay(createParser, [bytes]);
+
+  for (let offset = 0; offset <= bytes.length; offset++) {
+    const items = await replay(createParser, [bytes.slice(0, offset), bytes.slice(offset)]);
+    expect({ offset, items }).toEqual({ offset, items: expected });
+  }
+
+  const bytewise = Array.from(bytes, byte => Uint8Array.of(byte));
+  expect(await replay(createParser, bytewise)).toEqual(expected);
+
+  return expected;
+}
+
+describe('SSEParser', () => {
+  it('replays a Claude messages stream split at every offset', async () => {
+    const events = await expectSplitInvariant(() => new SSEParser(), loadFixture('claude-messages.sse'));
+
+    expect(events.map(e => e.event)).toEqual([
+      'message_start',
+      'content_block_start',
+      'ping',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+
+    const text = events
+      .filter(e => e.event === 'content_block_delta')
+      .map(e => JSON.parse(e.data).delta.text)
+      .join('');
+    expect(text).toBe('Café 日本語 👋🏽 done.');
+  });
+
+  it('replays an OpenAI chat stream with CRLF line endings split at every offset', async () => {
+    const events: SSEEvent[] = await expectSplitInvariant(() => new SSEParser(), loadFixture('openai-chat.sse'));
+
+    expect(events.every(e => e.event === 'message')).toBe(true);
+    expect(events[events.length - 1].data).toBe('[DONE]');
+
+    const chunks = events.slice(0, -1).map(e => JSON.parse(e.data));
+    const text = chunks.map(c => c.choices[0]?.delta?.content || '').join('');
+    expect(text).toBe('Naïve résumé, 中文 🚀');
+    expect(chunks[chunks.length - 1].usage.total_tokens).toBe(16);
+  });
+
+  it('dispatches an event left open when the stream ends', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: {"a":1}')).toEqual([]);
+    expect(parser.end()).toEqual([{ event: 'message', data: '{"a":1}', id: undefined, retry: undefined }]);
+  });
+});
+
+describe('NDJSONParser', () => {
+  it('replays an NDJSON chat stream split at every offset', async () => {
+    const values = await expectSplitInvariant(() => new NDJSONParser(), loadFixture('ollama-chat.ndjson'));
+
+    expect(values).toHaveLength(3);
+    expect(values.map(v => v.message.content).join('')).toBe('Grüße aus Köln 🍺');
+    expect(values[2].done).toBe(true);
+  });
+});
+
+describe('JSONArrayParser', () => {
+  it('replays a Gemini streamGenerateContent array split at every offset', async () => {
+    const values = await expectSplitInvariant(() => new JSONArrayParser(), loadFixture('gemini-stream.json'));
+
+    expect(values).toHaveLength(3);
+    expect(values.map(v => v.candidates[0].content.parts[0].text).join('')).toBe(
+      'Ça va? Brackets ] and { in "quotes" 😀 終わり'
+    );
+    expect(values[2].usageMetadata.totalTokenCount).toBe(15);
+  });
+
+  it('drops an element that is still open when the stream ends', () => {
+    const parser = new JSONArrayParser();
+    expect(parser.push('[{"a":1},{"b":')).toEqual([{ a: 1 }]);
+    expect(parser.end()).toEqual([]);
+  });
+});
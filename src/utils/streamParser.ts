@@ -0,0 +1,267 @@
+/**
+ * Incremental parsers for streamed AI responses
+ *
+ * Network reads can end anywhere: in the middle of a line, a JSON value or a
+ * multi-byte character. Each parser buffers partial input between `push`
+ * calls and only emits complete items.
+ */
+
+export interface StreamParser<T> {
+  push(text: string): T[];
+  end(): T[];
+}
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Server-sent events parser following the WHATWG event stream format
+ */
+export class SSEParser implements StreamParser<SSEEvent> {
+  private buffer = '';
+  private started = false;
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  push(text: string): SSEEvent[] {
+    this.buffer += text;
+
+    if (!this.started && this.buffer.length > 0) {
+      this.started = true;
+      if (this.buffer.charCodeAt(0) === 0xfeff) {
+        this.buffer = this.buffer.slice(1);
+      }
+    }
+
+    const events: SSEEvent[] = [];
+    let lineStart = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing \r may be the first half of \r\n, wait for the next read
+      if (char === '\r' && i === this.buffer.length - 1) break;
+
+      this.processLine(this.buffer.slice(lineStart, i), events);
+
+      if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+      lineStart = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(lineStart);
+    return events;
+  }
+
+  /**
+   * Flush input left at the end of the stream. Unlike browsers we also
+   * dispatch an event that was not followed by a blank line, since some
+   * servers close the connection right after the last `data:` line.
+   */
+  end(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ''), events);
+      this.buffer = '';
+    }
+    this.dispatch(events);
+
+    return events;
+  }
+
+  private processLine(line: string, events: SSEEvent[]): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    // Comment, often used as a keep-alive
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+  }
+
+  private dispatch(events: SSEEvent[]): void {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId,
+        retry: this.retry,
+      });
+    }
+
+    this.eventType = '';
+    this.dataLines = [];
+  }
+}
+
+/**
+ * Newline-delimited JSON parser. Lines that are not valid JSON are skipped.
+ */
+export class NDJSONParser implements StreamParser<any> {
+  private buffer = '';
+
+  push(text: string): any[] {
+    this.buffer += text;
+
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    return this.parseLines(lines);
+  }
+
+  end(): any[] {
+    const lines = [this.buffer];
+    this.buffer = '';
+    return this.parseLines(lines);
+  }
+
+  private parseLines(lines: string[]): any[] {
+    const values: any[] = [];
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      try {
+        values.push(JSON.parse(trimmed));
+      } catch (e) {
+        // Skip malformed lines rather than failing the whole stream
+      }
+    }
+
+    return values;
+  }
+}
+
+/**
+ * Parser for a JSON array streamed one element at a time, as returned by
+ * Gemini's streamGenerateContent. Emits each top-level object or array as
+ * soon as it is complete. Concatenated values without an enclosing array
+ * are accepted too.
+ */
+export class JSONArrayParser implements StreamParser<any> {
+  private depth = 0;
+  private inArray = false;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+
+  push(text: string): any[] {
+    const values: any[] = [];
+    const baseDepth = () => (this.inArray ? 1 : 0);
+
+    for (const char of text) {
+      if (this.depth === baseDepth()) {
+        // Between elements: only structural characters matter here
+        if (char === '[' && !this.inArray) {
+          this.inArray = true;
+          this.depth = 1;
+        } else if (char === ']' && this.inArray) {
+          this.inArray = false;
+          this.depth = 0;
+        } else if (char === '{' || char === '[') {
+          this.current = char;
+          this.depth++;
+        }
+        continue;
+      }
+
+      this.current += char;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+
+        if (this.depth === baseDepth()) {
+          try {
+            values.push(JSON.parse(this.current));
+          } catch (e) {
+            // Skip malformed elements rather than failing the whole stream
+          }
+          this.current = '';
+        }
+      }
+    }
+
+    return values;
+  }
+
+  end(): any[] {
+    // An element still open at the end of the stream is incomplete
+    this.current = '';
+    this.depth = 0;
+    this.inArray = false;
+    this.inString = false;
+    this.escaped = false;
+    return [];
+  }
+}
+
+/**
+ * Read a fetch response body through a parser, calling `onItem` for each
+ * complete item. Bytes are decoded in streaming mode so multi-byte UTF-8
+ * characters split across reads are preserved.
+ */
+export async function readStream<T>(
+  response: Response,
+  parser: StreamParser<T>,
+  onItem: (item: T) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Failed to get response reader');
+  }
+
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    parser.push(decoder.decode(value, { stream: true })).forEach(onItem);
+  }
+
+  parser.push(decoder.decode()).forEach(onItem);
+  parser.end().forEach(onItem);
+}
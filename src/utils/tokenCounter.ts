@@ -1,3 +1,5 @@
+import providerRegistry from '@/services/providerRegistry';
+
 /**
  * Token counting utilities for different AI models
  */
@@ -222,38 +224,9 @@ export class TokenCounter {
    * Get token limit for a specific model
    */
   static getModelLimit(model: string): number {
-    const limits: Record<string, number> = {
-      // Claude models
-      'claude-3-opus': 200000,
-      'claude-3-sonnet': 200000,
-      'claude-3-haiku': 200000,
-      'claude-2.1': 100000,
-      'claude-2': 100000,
-      'claude-instant': 100000,
-
-      // GPT models
-      'gpt-4-turbo': 128000,
-      'gpt-4': 8192,
-      'gpt-4-32k': 32768,
-      'gpt-3.5-turbo': 16385,
-      'gpt-3.5-turbo-16k': 16385,
-
-      // Gemini models
-      'gemini-pro': 32768,
-      'gemini-pro-vision': 16384,
-      'gemini-ultra': 32768,
-
-      // Grok models
-      'grok-beta': 8192,
-      'grok-1': 8192,
-      'grok-2': 32768,
-    };
-
-    // Check for partial matches
-    for (const [key, limit] of Object.entries(limits)) {
-      if (model.toLowerCase().includes(key)) {
-        return limit;
-      }
+    const modelInfo = providerRegistry.findModel(model);
+    if (modelInfo) {
+      return modelInfo.maxTokens;
     }
 
     // Default limit